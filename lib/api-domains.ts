@@ -3,6 +3,11 @@
  * Extracts API domains from environment variables for CSP configuration
  */
 
+import { createLogger } from './logger';
+import { getServiceUrls, getSocketServiceUrls } from './serviceConfig';
+
+const logger = createLogger('api-domains');
+
 /**
  * Extract unique domains from API URLs
  */
@@ -16,8 +21,7 @@ function extractDomainsFromUrls(urls: (string | undefined)[]): string[] {
         // Add the full origin (protocol + hostname + port)
         domains.add(urlObj.origin);
       } catch (error) {
-        console.warn(`Invalid URL in environment variables: ${url}`);
-        console.error(error);
+        logger.warn('Invalid URL in environment variables', { url, error });
       }
     }
   });
@@ -26,64 +30,63 @@ function extractDomainsFromUrls(urls: (string | undefined)[]): string[] {
 }
 
 /**
- * Get all API domains from environment variables
+ * Get all API domains from the service registry
  */
 export function getAPIDomains(): string[] {
-  const apiUrls = [
-    process.env.NEXT_PUBLIC_IDENTITY_API_BASE_URL,
-    process.env.NEXT_PUBLIC_DATASET_BASE_URL,
-    process.env.NEXT_PUBLIC_USER_BASE_URL,
-    process.env.NEXT_PUBLIC_REQUEST_BASE_URL,
-    process.env.NEXT_PUBLIC_AUDIT_API_BASE_URL,
-    process.env.NEXT_PUBLIC_DES_API_BASE_URL,
-    process.env.NEXT_PUBLIC_PROFILE_API_BASE_URL,
-    process.env.NEXT_PUBLIC_ROLE_BASE_URL,
-    process.env.NEXT_PUBLIC_REQUEST_UPD_URL,
-    process.env.NEXT_PUBLIC_KAFKA_BASE_URL,
-    process.env.NEXT_PUBLIC_DES_BASE_URL, // Legacy support
-  ];
-  
-  return extractDomainsFromUrls(apiUrls);
+  return extractDomainsFromUrls(getServiceUrls());
 }
 
 /**
- * Get CSP-safe connect-src directive with API domains
+ * Get WebSocket origins for socket services (https -> wss, http -> ws)
  */
-export function getConnectSrcDirective(isProduction: boolean = false): string[] {
-  const baseDomains = [
-    "'self'",
-    "https://api.github.com",
-    "https://www.gstatic.com",
-    "https://firebaseinstallations.googleapis.com",
-    "https://fcmregistrations.googleapis.com",
-    "https://firebase.googleapis.com"
-  ];
-  
-  // Add API domains
-  const apiDomains = getAPIDomains();
-  baseDomains.push(...apiDomains);
-  
-  // Add WebSocket support
-  if (isProduction) {
-    baseDomains.push("wss:");
-  } else {
-    baseDomains.push("wss:", "ws:", "localhost:*", "127.0.0.1:*");
+export function getSocketDomains(): string[] {
+  return extractDomainsFromUrls(getSocketServiceUrls()).map(origin =>
+    origin.replace(/^http(s?):/, (_, secure) => `ws${secure}:`)
+  );
+}
+
+/**
+ * Plain http:/ws: origins explicitly permitted in production
+ * Comma-separated CSP_INSECURE_ORIGIN_ALLOWLIST, e.g. "http://10.0.0.5:8000"
+ */
+export function getInsecureOriginAllowlist(): string[] {
+  return (process.env.CSP_INSECURE_ORIGIN_ALLOWLIST ?? '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get CSP-safe connect-src sources for the API and socket services
+ * In production, http:/ws: origins are dropped with a warning unless allowlisted
+ * (or always, with ignoreAllowlist, for the stricter report-only policy)
+ */
+export function getAPIConnectSources(
+  isProduction: boolean = false,
+  { ignoreAllowlist = false }: { ignoreAllowlist?: boolean } = {}
+): string[] {
+  const origins = [...getAPIDomains(), ...getSocketDomains()];
+  if (!isProduction) {
+    return origins;
   }
-  
-  return baseDomains;
+
+  const allowlist = ignoreAllowlist ? [] : getInsecureOriginAllowlist();
+  return origins.filter(origin => {
+    const isInsecure = origin.startsWith('http:') || origin.startsWith('ws:');
+    if (!isInsecure || allowlist.includes(origin)) {
+      return true;
+    }
+    // Both policies are built in every environment; only warn where it applies
+    if (!ignoreAllowlist && process.env.NODE_ENV === 'production') {
+      logger.warn('Insecure API origin left out of production CSP; add it to CSP_INSECURE_ORIGIN_ALLOWLIST to permit it', { origin });
+    }
+    return false;
+  });
 }
 
 /**
  * Log API domains for debugging
  */
 export function logAPIDomains(): void {
-  const domains = getAPIDomains();
-  console.log('🔗 API Domains configured for CSP:', domains);
-}
-
-// Auto-log in development
-if (process.env.NODE_ENV === 'development') {
-  setTimeout(() => {
-    logAPIDomains();
-  }, 1000);
+  logger.debug('API domains configured for CSP', { domains: getAPIDomains() });
 }
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { withCsrfProtection } from "../../../csrf-guard";
+import { getAPISecurityHeaders } from "../../../security-headers";
+import { clearSessionCookies, readSessionCookies } from "../../../session-cookies";
+import { getSessionStartedAt, getSessionState, touchSession } from "../../../session-timeouts";
+
+// The client reports real user activity here, so background API calls
+// never keep an abandoned session alive
+export const POST = withCsrfProtection(async (request: NextRequest) => {
+    const session = readSessionCookies(request);
+    if (!session || (await getSessionState(request)) !== "active") {
+        const response = NextResponse.json({ message: "No session" }, { status: 401, headers: getAPISecurityHeaders() });
+        return clearSessionCookies(response);
+    }
+
+    const response = new NextResponse(null, { status: 204, headers: getAPISecurityHeaders() });
+    const startedAt = (await getSessionStartedAt(request)) ?? Date.now();
+    return touchSession(response, startedAt, session.userId);
+});
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { setCsrfCookie } from "../../../csrf";
+import { withCsrfProtection } from "../../../csrf-guard";
+import { getAPISecurityHeaders } from "../../../security-headers";
+import {
+    clearSessionCookies,
+    SESSION_COOKIE_OPTIONS,
+    SESSION_COOKIES,
+    setSessionCookies,
+} from "../../../session-cookies";
+import { loginWithIdentity } from "../../../session-server";
+import { touchSession } from "../../../session-timeouts";
+
+// Credentials go to the identity service from here; the tokens it returns are
+// stored in HttpOnly cookies and stripped from the body the browser sees
+export const POST = withCsrfProtection(async (request: NextRequest) => {
+    let credentials: unknown;
+    try {
+        credentials = await request.json();
+    } catch {
+        return NextResponse.json({ message: "Invalid request body" }, { status: 400, headers: getAPISecurityHeaders() });
+    }
+
+    let result;
+    try {
+        result = await loginWithIdentity(credentials);
+    } catch {
+        return NextResponse.json({ message: "Identity service unavailable" }, { status: 502, headers: getAPISecurityHeaders() });
+    }
+
+    if (!result.tokens) {
+        // A 2xx without tokens is the backend's fault, not the user's
+        const status = result.status >= 200 && result.status < 300 ? 502 : result.status;
+        return NextResponse.json(result.body, { status, headers: getAPISecurityHeaders() });
+    }
+
+    const response = NextResponse.json(result.body, { status: result.status, headers: getAPISecurityHeaders() });
+    // Legacy script-readable tokens are dropped as soon as the new session exists,
+    // and the new session gets a CSRF token, cache scope and timeout clocks of its own
+    setSessionCookies(clearSessionCookies(response), result.tokens);
+    response.cookies.set(SESSION_COOKIES.cacheScope, globalThis.crypto.randomUUID(), SESSION_COOKIE_OPTIONS);
+    return touchSession(setCsrfCookie(response), Date.now(), result.tokens.userId);
+});
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { setCsrfCookie } from "../../../csrf";
+import { withCsrfProtection } from "../../../csrf-guard";
+import { getAPISecurityHeaders } from "../../../security-headers";
+import { clearSessionCookies } from "../../../session-cookies";
+
+// HttpOnly cookies can only be removed by the server; the CSRF token is
+// rotated so the next session does not inherit it
+export const POST = withCsrfProtection(async () => {
+    const response = new NextResponse(null, { status: 204, headers: getAPISecurityHeaders() });
+    return setCsrfCookie(clearSessionCookies(response));
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { withCsrfProtection } from "../../../csrf-guard";
+import { getAPISecurityHeaders } from "../../../security-headers";
+import { clearSessionCookies, SESSION_COOKIES, setSessionCookies } from "../../../session-cookies";
+import { refreshWithIdentity } from "../../../session-server";
+import { getSessionState } from "../../../session-timeouts";
+
+// Rotates the access token from the HttpOnly refresh cookie. Responds with the
+// new expiry only; a rejected refresh token or a timed-out session ends the session.
+// Refreshing is not user activity, so it never extends the idle timeout
+export const POST = withCsrfProtection(async (request: NextRequest) => {
+    const refreshToken = request.cookies.get(SESSION_COOKIES.refresh)?.value;
+    const userId = request.cookies.get(SESSION_COOKIES.user)?.value;
+
+    if (!refreshToken || !userId || (await getSessionState(request)) !== "active") {
+        const response = NextResponse.json({ message: "No session" }, { status: 401, headers: getAPISecurityHeaders() });
+        return clearSessionCookies(response);
+    }
+
+    let result;
+    try {
+        result = await refreshWithIdentity(refreshToken, userId);
+    } catch {
+        return NextResponse.json({ message: "Identity service unavailable" }, { status: 502, headers: getAPISecurityHeaders() });
+    }
+
+    if (!result.tokens) {
+        // 400/401/403 mean the refresh token was rejected; a rate limit is
+        // passed on as is, anything else may be transient
+        const rejected = [400, 401, 403].includes(result.status);
+        const status = rejected ? 401 : result.status === 429 ? 429 : 502;
+        const response = NextResponse.json(result.body, { status, headers: getAPISecurityHeaders() });
+        return rejected ? clearSessionCookies(response) : response;
+    }
+
+    const { expiresAt = null } = result.tokens;
+    const response = NextResponse.json({ expiresAt }, { headers: getAPISecurityHeaders() });
+    return setSessionCookies(response, result.tokens);
+});
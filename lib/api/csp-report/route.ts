@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import {
+    CSP_REPORT_CONTENT_TYPES,
+    getViolationSummary,
+    isRateLimited,
+    MAX_REPORT_BYTES,
+    normalizeCSPReports,
+    recordCSPViolations,
+} from "../../csp-report";
+import { getAPISecurityHeaders } from "../../security-headers";
+
+// Clients can put anything in X-Forwarded-For; only the right-most hop, appended
+// by our own proxy, is trustworthy. Platforms that set a dedicated header
+// (e.g. cf-connecting-ip) name it in TRUSTED_PROXY_HEADER.
+function getClientIp(request: NextRequest): string | null {
+    const trustedHeader = process.env.TRUSTED_PROXY_HEADER;
+    const address = trustedHeader
+        ? request.headers.get(trustedHeader)
+        : request.headers.get("x-forwarded-for")?.split(",").pop();
+    return address?.trim() || null;
+}
+
+// Reads the body up to `limit` bytes; null once it grows past that
+async function readLimitedText(request: NextRequest, limit: number): Promise<string | null> {
+    if (!request.body) return "";
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    chunks.reduce((offset, chunk) => {
+        bytes.set(chunk, offset);
+        return offset + chunk.byteLength;
+    }, 0);
+    return new TextDecoder().decode(bytes);
+}
+
+// Browsers send reports without credentials, so this endpoint is public
+export async function POST(request: NextRequest) {
+    // Without an address a report cannot be rate-limited on its own, and one
+    // shared bucket would let a single client silence everyone; it is dropped
+    const clientIp = getClientIp(request);
+    if (!clientIp) {
+        return new NextResponse(null, { status: 204, headers: getAPISecurityHeaders() });
+    }
+    if (isRateLimited(clientIp)) {
+        return new NextResponse(null, { status: 429, headers: getAPISecurityHeaders() });
+    }
+
+    const contentType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? "";
+    if (!CSP_REPORT_CONTENT_TYPES.includes(contentType)) {
+        return new NextResponse(null, { status: 415, headers: getAPISecurityHeaders() });
+    }
+
+    // Oversized reports are refused before any of the body is read
+    if (Number(request.headers.get("content-length")) > MAX_REPORT_BYTES) {
+        return new NextResponse(null, { status: 413, headers: getAPISecurityHeaders() });
+    }
+
+    const body = await readLimitedText(request, MAX_REPORT_BYTES);
+    if (body === null) {
+        return new NextResponse(null, { status: 413, headers: getAPISecurityHeaders() });
+    }
+
+    try {
+        recordCSPViolations(normalizeCSPReports(JSON.parse(body)));
+    } catch {
+        return new NextResponse(null, { status: 400, headers: getAPISecurityHeaders() });
+    }
+
+    return new NextResponse(null, { status: 204, headers: getAPISecurityHeaders() });
+}
+
+// The summary reveals what the policy blocks, so outside development it
+// requires the CSP_REPORT_SUMMARY_TOKEN bearer token
+export async function GET(request: NextRequest) {
+    const summaryToken = process.env.CSP_REPORT_SUMMARY_TOKEN;
+    const isAuthorized = summaryToken
+        ? request.headers.get("authorization") === `Bearer ${summaryToken}`
+        : process.env.NODE_ENV === "development";
+
+    if (!isAuthorized) {
+        return new NextResponse(null, { status: 404, headers: getAPISecurityHeaders() });
+    }
+
+    return NextResponse.json(getViolationSummary(), { headers: getAPISecurityHeaders() });
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { withCsrfProtection } from "../../../../csrf-guard";
+import { getAPISecurityHeaders } from "../../../../security-headers";
+import { clearSessionCookies, readSessionCookies } from "../../../../session-cookies";
+import { isIdentitySessionPath, stripTokens } from "../../../../session-server";
+import { getSessionState } from "../../../../session-timeouts";
+import { getServiceEndpoint, isServiceName } from "../../../../serviceConfig";
+
+type ProxyContext = { params: Promise<{ service: string; path: string[] }> };
+
+// Only these travel to the backend; cookies in particular never do
+const FORWARDED_REQUEST_HEADERS = [
+    "accept",
+    "accept-language",
+    "content-type",
+    "idempotency-key",
+    "if-match",
+    "if-none-match",
+    "x-correlation-id",
+    "x-request-id",
+];
+
+const FORWARDED_RESPONSE_HEADERS = [
+    "content-type",
+    "content-disposition",
+    "etag",
+    "last-modified",
+    "retry-after",
+    "x-correlation-id",
+];
+
+// Forwards browser calls to a backend service with the session's bearer
+// token attached here, so the JWT never reaches browser code. The session
+// cookie makes every call credentialed, so state-changing ones need a CSRF token
+async function proxy(request: NextRequest, context: ProxyContext) {
+    const params = await context.params;
+    if (!isServiceName(params.service)) {
+        return NextResponse.json({ message: "Unknown service" }, { status: 404, headers: getAPISecurityHeaders() });
+    }
+
+    // Login and refresh return tokens; only the auth routes may call them
+    if (params.service === "identity" && isIdentitySessionPath(params.path.join("/"))) {
+        return NextResponse.json({ message: "Use the /api/auth routes" }, { status: 403, headers: getAPISecurityHeaders() });
+    }
+
+    const path = `${params.path.map(encodeURIComponent).join("/")}${request.nextUrl.search}`;
+    const url = getServiceEndpoint(params.service, path);
+    if (!url) {
+        return NextResponse.json({ message: "Service not available" }, { status: 404, headers: getAPISecurityHeaders() });
+    }
+
+    const headers = new Headers();
+    FORWARDED_REQUEST_HEADERS.forEach((name) => {
+        const value = request.headers.get(name);
+        if (value) headers.set(name, value);
+    });
+    // Public endpoints (password reset and the like) are forwarded without one
+    const session = readSessionCookies(request);
+    if (session && (await getSessionState(request)) !== "active") {
+        const response = NextResponse.json({ message: "Session timed out" }, { status: 401, headers: getAPISecurityHeaders() });
+        return clearSessionCookies(response);
+    }
+    if (session) {
+        headers.set("Authorization", `Bearer ${session.accessToken}`);
+    }
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(url, {
+            method: request.method,
+            headers,
+            body: ["GET", "HEAD"].includes(request.method) ? undefined : await request.arrayBuffer(),
+            cache: "no-store",
+            redirect: "manual",
+        });
+    } catch {
+        return NextResponse.json({ message: "Service unavailable" }, { status: 502, headers: getAPISecurityHeaders() });
+    }
+
+    const responseHeaders = new Headers(getAPISecurityHeaders());
+    FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+        const value = upstream.headers.get(name);
+        if (value) responseHeaders.set(name, value);
+    });
+
+    // Any other identity endpoint that hands out tokens must not leak them either
+    if (params.service === "identity" && upstream.headers.get("content-type")?.includes("application/json")) {
+        let body: unknown;
+        try {
+            body = stripTokens(await upstream.json());
+        } catch {
+            return NextResponse.json({ message: "Invalid upstream response" }, { status: 502, headers: getAPISecurityHeaders() });
+        }
+        return NextResponse.json(body, { status: upstream.status, headers: responseHeaders });
+    }
+
+    return new NextResponse(upstream.body, { status: upstream.status, headers: responseHeaders });
+}
+
+const guardedProxy = withCsrfProtection(proxy);
+
+export const GET = guardedProxy;
+export const POST = guardedProxy;
+export const PUT = guardedProxy;
+export const PATCH = guardedProxy;
+export const DELETE = guardedProxy;
@@ -0,0 +1,197 @@
+import Cookies from "js-cookie";
+import { getRequestKey, getRequestKeyUrl } from "./requestKey";
+import { SESSION_COOKIES } from "./session-cookies";
+
+export interface CacheEntry {
+	data: unknown;
+	storedAt: number;
+	/** Login the response was fetched under; see SESSION_COOKIES.cacheScope */
+	session: string;
+}
+
+export interface CacheStore {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+	clear(): Promise<void>;
+}
+
+export interface CacheRule {
+	/** GET URLs this rule applies to; strings match as a prefix. */
+	match: string | RegExp;
+	/** How long a response is served without touching the network. */
+	ttlMs: number;
+	/** How long after the TTL a stale response is still served while it is refetched. */
+	staleWhileRevalidateMs?: number;
+	/** Mutation URLs that invalidate entries of this rule. Defaults to the same top-level resource. */
+	invalidatedBy?: (string | RegExp)[];
+}
+
+export interface CacheOptions {
+	/** Defaults to "memory". IndexedDB falls back to memory where it is unavailable. */
+	store?: "memory" | "indexeddb";
+	rules: CacheRule[];
+}
+
+export type CacheLookup =
+	| { state: "fresh"; data: unknown }
+	| { state: "stale"; data: unknown }
+	| { state: "miss" };
+
+const DB_NAME = "aimx-api-cache";
+const OBJECT_STORE = "responses";
+
+// Every store in use, so logout can wipe all of them at once
+const activeStores = new Set<CacheStore>();
+let indexedDBStore: CacheStore | null = null;
+
+export const createMemoryStore = (): CacheStore => {
+	const entries = new Map<string, CacheEntry>();
+	return {
+		get: async (key) => entries.get(key),
+		set: async (key, entry) => {
+			entries.set(key, entry);
+		},
+		delete: async (key) => {
+			entries.delete(key);
+		},
+		keys: async () => Array.from(entries.keys()),
+		clear: async () => {
+			entries.clear();
+		},
+	};
+};
+
+export const createIndexedDBStore = (): CacheStore => {
+	let database: Promise<IDBDatabase> | null = null;
+
+	const open = () => {
+		database ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, 1);
+			request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		return database;
+	};
+
+	const run = <T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest,
+	): Promise<T> =>
+		open().then(
+			(db) =>
+				new Promise<T>((resolve, reject) => {
+					const transaction = db.transaction(OBJECT_STORE, mode);
+					const request = operation(transaction.objectStore(OBJECT_STORE));
+					transaction.oncomplete = () => resolve(request.result as T);
+					transaction.onerror = () => reject(transaction.error);
+				}),
+		);
+
+	return {
+		get: (key) => run<CacheEntry | undefined>("readonly", (store) => store.get(key)),
+		set: (key, entry) => run<void>("readwrite", (store) => store.put(entry, key)),
+		delete: (key) => run<void>("readwrite", (store) => store.delete(key)),
+		keys: () =>
+			run<IDBValidKey[]>("readonly", (store) => store.getAllKeys()).then((keys) =>
+				keys.map(String),
+			),
+		clear: () => run<void>("readwrite", (store) => store.clear()),
+	};
+};
+
+const resolveStore = (kind: CacheOptions["store"]): CacheStore => {
+	if (kind === "indexeddb" && typeof indexedDB !== "undefined") {
+		// One database shared by every client; keys are namespaced per client
+		indexedDBStore ??= createIndexedDBStore();
+		return indexedDBStore;
+	}
+	return createMemoryStore();
+};
+
+const matches = (pattern: string | RegExp, url: string) =>
+	typeof pattern === "string" ? url.startsWith(pattern) : pattern.test(url);
+
+// Sessions can end without this page knowing (server-side timeouts, cookies
+// expiring while the browser was closed), so entries carry the login they
+// belong to and are never served to another one
+const getCacheSession = () => Cookies.get(SESSION_COOKIES.cacheScope) ?? "";
+
+const getResourceRoot = (url: string) => url.split("?")[0].split("/").filter(Boolean)[0] ?? "";
+
+/**
+ * Clears every API response cache, e.g. on logout or a forced re-login.
+ */
+export const clearApiCaches = async () => {
+	// Persisted entries from an earlier page load must go too
+	if (typeof indexedDB !== "undefined") {
+		indexedDBStore ??= createIndexedDBStore();
+		activeStores.add(indexedDBStore);
+	}
+	await Promise.all(Array.from(activeStores, (store) => store.clear().catch(() => undefined)));
+};
+
+/**
+ * Per-client GET cache with TTL and stale-while-revalidate per route.
+ * Storage failures never fail a request; they just mean a cache miss.
+ */
+export const createApiCache = ({ store, rules }: CacheOptions, namespace: string) => {
+	const cacheStore = resolveStore(store);
+	activeStores.add(cacheStore);
+
+	const toStoreKey = (url: string, params?: unknown) => `${namespace}|${getRequestKey(url, params)}`;
+	const findRule = (url: string) => rules.find((rule) => matches(rule.match, url));
+
+	const lookup = async (url: string, params?: unknown): Promise<CacheLookup> => {
+		const rule = findRule(url);
+		if (!rule) return { state: "miss" };
+
+		const key = toStoreKey(url, params);
+		const entry = await cacheStore.get(key).catch(() => undefined);
+		if (!entry) return { state: "miss" };
+		if (entry.session !== getCacheSession()) {
+			await cacheStore.delete(key).catch(() => undefined);
+			return { state: "miss" };
+		}
+
+		const age = Date.now() - entry.storedAt;
+		if (age <= rule.ttlMs) return { state: "fresh", data: entry.data };
+		if (age <= rule.ttlMs + (rule.staleWhileRevalidateMs ?? 0)) {
+			return { state: "stale", data: entry.data };
+		}
+		return { state: "miss" };
+	};
+
+	const save = async (url: string, params: unknown, data: unknown) => {
+		if (!findRule(url)) return;
+		await cacheStore
+			.set(toStoreKey(url, params), { data, storedAt: Date.now(), session: getCacheSession() })
+			.catch(() => undefined);
+	};
+
+	const invalidate = async (mutationUrl: string) => {
+		const prefix = `${namespace}|`;
+		const keys = await cacheStore.keys().catch(() => [] as string[]);
+		const stale = keys.filter((key) => {
+			if (!key.startsWith(prefix)) return false;
+			const cachedUrl = getRequestKeyUrl(key.slice(prefix.length));
+			const rule = findRule(cachedUrl);
+			if (!rule) return true;
+			return rule.invalidatedBy
+				? rule.invalidatedBy.some((pattern) => matches(pattern, mutationUrl))
+				: getResourceRoot(cachedUrl) === getResourceRoot(mutationUrl);
+		});
+		await Promise.all(stale.map((key) => cacheStore.delete(key).catch(() => undefined)));
+	};
+
+	return {
+		isCacheable: (url: string) => Boolean(findRule(url)),
+		lookup,
+		save,
+		invalidate,
+	};
+};
+
+export type ApiCache = ReturnType<typeof createApiCache>;
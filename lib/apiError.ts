@@ -0,0 +1,153 @@
+import axios from "axios";
+import type { AxiosError } from "axios";
+import { CSRF_ERROR_CODE } from "./csrf";
+
+export type ApiErrorKind =
+	| "network"
+	| "timeout"
+	| "auth-expired"
+	| "forbidden"
+	| "csrf"
+	| "validation"
+	| "not-found"
+	| "conflict"
+	| "rate-limited"
+	| "server"
+	| "cancelled";
+
+export type FieldErrors = Record<string, string[]>;
+
+interface ApiErrorBase extends Error {
+	name: "ApiError";
+	status?: number;
+	code?: string;
+	correlationId?: string;
+	payload?: unknown;
+}
+
+export type ApiError =
+	| (ApiErrorBase & { kind: Exclude<ApiErrorKind, "validation"> })
+	| (ApiErrorBase & { kind: "validation"; fieldErrors: FieldErrors });
+
+type ErrorPayload = {
+	message?: unknown;
+	code?: unknown;
+	error?: unknown;
+	errors?: unknown;
+	fieldErrors?: unknown;
+	correlationId?: unknown;
+};
+
+// Older backend builds answer an expired session with these messages and a
+// non-401 status; they are matched here and nowhere else
+const LEGACY_AUTH_MESSAGES = ["Unauthorized or invalid token", "Refresh token is invalid"];
+
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+const asString = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+export const isApiError = (error: unknown): error is ApiError =>
+	error instanceof Error && error.name === "ApiError" && "kind" in error;
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+	if (status === 401) return "auth-expired";
+	if (status === 403) return "forbidden";
+	if (status === 404 || status === 410) return "not-found";
+	if (status === 408) return "timeout";
+	if (status === 409) return "conflict";
+	// Retryable once the server's Retry-After has passed
+	if (status === 429) return "rate-limited";
+	if (status >= 500) return "server";
+	// Remaining 4xx mean the request itself was rejected
+	return "validation";
+};
+
+/**
+ * Accepts `{ field: "msg" | ["msg"] }` or `[{ field, message }]` shapes.
+ */
+const extractFieldErrors = (payload: ErrorPayload | undefined): FieldErrors => {
+	const source = payload?.fieldErrors ?? payload?.errors;
+	const fieldErrors: FieldErrors = {};
+
+	if (Array.isArray(source)) {
+		source.forEach((entry) => {
+			const field = asString(entry?.field) ?? asString(entry?.path) ?? "_";
+			const message = asString(entry?.message) ?? asString(entry?.msg);
+			if (message) (fieldErrors[field] ??= []).push(message);
+		});
+	} else if (source && typeof source === "object") {
+		Object.entries(source).forEach(([field, messages]) => {
+			const list = (Array.isArray(messages) ? messages : [messages]).filter(
+				(message): message is string => typeof message === "string",
+			);
+			if (list.length > 0) fieldErrors[field] = list;
+		});
+	}
+
+	return fieldErrors;
+};
+
+const classify = (error: AxiosError<ErrorPayload>): ApiErrorKind => {
+	if (axios.isCancel(error)) return "cancelled";
+	if (!error.response) {
+		return TIMEOUT_CODES.includes(error.code ?? "") ? "timeout" : "network";
+	}
+
+	// Rejected by the CSRF guard: reload to get a fresh token rather than re-login
+	if (error.response.status === 403 && error.response.data?.code === CSRF_ERROR_CODE) {
+		return "csrf";
+	}
+
+	const message = asString(error.response.data?.message) ?? "";
+	if (LEGACY_AUTH_MESSAGES.some((legacy) => message.includes(legacy))) {
+		return "auth-expired";
+	}
+	return kindFromStatus(error.response.status);
+};
+
+/**
+ * Normalizes an axios failure into an ApiError. Already-normalized errors
+ * are returned unchanged, so it is safe to call more than once.
+ */
+export const toApiError = (error: AxiosError | ApiError): ApiError => {
+	if (isApiError(error)) return error;
+
+	const axiosError = error as AxiosError<ErrorPayload>;
+	const kind = classify(axiosError);
+	const response = axiosError.response;
+	const payload = response?.data;
+	const headers = response?.headers ?? {};
+
+	const apiError = Object.assign(
+		new Error(asString(payload?.message) ?? axiosError.message, { cause: error }),
+		{
+			name: "ApiError" as const,
+			kind,
+			status: response?.status,
+			code: asString(payload?.code) ?? asString(payload?.error) ?? axiosError.code,
+			correlationId:
+				asString(headers["x-correlation-id"]) ??
+				asString(headers["x-request-id"]) ??
+				asString(payload?.correlationId),
+			payload,
+		},
+	);
+
+	return kind === "validation"
+		? Object.assign(apiError, { kind, fieldErrors: extractFieldErrors(payload) })
+		: (apiError as ApiError);
+};
+
+/**
+ * Error for a caller that stopped waiting on a request, e.g. one that was
+ * superseded or whose AbortSignal fired.
+ */
+export const createCancelledError = (): ApiError =>
+	Object.assign(new Error("Request was cancelled"), {
+		name: "ApiError" as const,
+		kind: "cancelled" as const,
+		code: "ERR_CANCELED",
+	});
+
+export const isAxiosOrApiError = (error: unknown): error is AxiosError | ApiError =>
+	isApiError(error) || axios.isAxiosError(error);
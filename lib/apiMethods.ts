@@ -0,0 +1,182 @@
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+import type { ApiCache } from "./apiCache";
+import { createCancelledError } from "./apiError";
+import { getRequestKey } from "./requestKey";
+
+export interface ApiRequestConfig extends AxiosRequestConfig {
+	/**
+	 * Requests sharing a key supersede each other: starting a new one cancels
+	 * the previous, so a stale response can never overwrite newer state.
+	 */
+	key?: string;
+	/** Share one in-flight GET between identical calls. Defaults to true. */
+	dedupe?: boolean;
+	/** Consult the client's response cache for this GET. Defaults to true. */
+	cache?: boolean;
+}
+
+interface SharedRequest {
+	promise: Promise<unknown>;
+	controller: AbortController;
+	subscribers: number;
+}
+
+/**
+ * One signal that aborts when any of the given signals does.
+ */
+const linkSignals = (signals: (AbortSignal | undefined)[]): AbortSignal | undefined => {
+	const active = signals.filter((signal): signal is AbortSignal => Boolean(signal));
+	if (active.length <= 1) return active[0];
+
+	const controller = new AbortController();
+	active.forEach((signal) => {
+		if (signal.aborted) controller.abort();
+		signal.addEventListener("abort", () => controller.abort(), { once: true });
+	});
+	return controller.signal;
+};
+
+/**
+ * Typed HTTP method wrappers that resolve with the response body, with
+ * AbortSignal support, keyed supersession, GET deduplication and an
+ * optional response cache.
+ */
+export const createApiMethods = (client: AxiosInstance, cache?: ApiCache) => {
+	const latestByKey = new Map<string, AbortController>();
+	const inFlightGets = new Map<string, SharedRequest>();
+
+	// Cancels the previous request under the same key and claims the key
+	const supersede = (key?: string) => {
+		if (!key) return { signal: undefined, release: () => undefined };
+
+		latestByKey.get(key)?.abort();
+		const controller = new AbortController();
+		latestByKey.set(key, controller);
+		return {
+			signal: controller.signal,
+			release: () => {
+				if (latestByKey.get(key) === controller) latestByKey.delete(key);
+			},
+		};
+	};
+
+	const send = <T>(
+		request: (config: AxiosRequestConfig) => Promise<{ data: T }>,
+		{ key, dedupe: _dedupe, cache: _cache, signal, ...config }: ApiRequestConfig = {},
+	): Promise<T> => {
+		const superseded = supersede(key);
+		return request({ ...config, signal: linkSignals([signal as AbortSignal, superseded.signal]) })
+			.then((res) => res.data)
+			.finally(superseded.release);
+	};
+
+	// Joins (or starts) the shared request; the underlying call is only
+	// aborted once every caller waiting on it has gone away
+	const subscribe = <T>(
+		dedupeKey: string,
+		shared: SharedRequest,
+		signal?: AbortSignal,
+	): Promise<T> => {
+		shared.subscribers += 1;
+		if (!signal) return shared.promise as Promise<T>;
+
+		return new Promise<T>((resolve, reject) => {
+			const onAbort = () => {
+				shared.subscribers -= 1;
+				if (shared.subscribers === 0) {
+					shared.controller.abort();
+					if (inFlightGets.get(dedupeKey) === shared) inFlightGets.delete(dedupeKey);
+				}
+				reject(createCancelledError());
+			};
+			if (signal.aborted) return onAbort();
+
+			signal.addEventListener("abort", onAbort, { once: true });
+			(shared.promise as Promise<T>).then(resolve, reject).finally(() => {
+				signal.removeEventListener("abort", onAbort);
+			});
+		});
+	};
+
+	const fetchGet = <T>(url: string, config: ApiRequestConfig): Promise<T> => {
+		const { key, dedupe = true, cache: _cache, signal, ...axiosConfig } = config;
+		if (!dedupe) {
+			return send((merged) => client.get<T>(url, merged), config);
+		}
+		// Never start (or abort) a shared request nobody is waiting for
+		if (signal?.aborted) return Promise.reject(createCancelledError());
+
+		const superseded = supersede(key);
+		const dedupeKey = getRequestKey(url, axiosConfig.params);
+		let shared = inFlightGets.get(dedupeKey);
+		if (!shared) {
+			const controller = new AbortController();
+			const request: SharedRequest = {
+				controller,
+				subscribers: 0,
+				promise: client
+					.get<T>(url, { ...axiosConfig, signal: controller.signal })
+					.then((res) => res.data)
+					.finally(() => {
+						if (inFlightGets.get(dedupeKey) === request) inFlightGets.delete(dedupeKey);
+					}),
+			};
+			shared = request;
+			inFlightGets.set(dedupeKey, shared);
+		}
+
+		return subscribe<T>(
+			dedupeKey,
+			shared,
+			linkSignals([signal as AbortSignal, superseded.signal]),
+		).finally(superseded.release);
+	};
+
+	const fetchAndCache = <T>(url: string, config: ApiRequestConfig): Promise<T> =>
+		fetchGet<T>(url, config).then(async (data) => {
+			await cache?.save(url, config.params, data);
+			return data;
+		});
+
+	const get = async <T>(url: string, config: ApiRequestConfig = {}): Promise<T> => {
+		if (!cache || config.cache === false || !cache.isCacheable(url)) {
+			return fetchGet<T>(url, config);
+		}
+
+		const cached = await cache.lookup(url, config.params);
+		if (cached.state === "fresh") return cached.data as T;
+		if (cached.state === "stale") {
+			// Serve what we have and refresh it behind the caller's back
+			fetchAndCache<T>(url, { ...config, key: undefined, signal: undefined }).catch(
+				() => undefined,
+			);
+			return cached.data as T;
+		}
+		return fetchAndCache<T>(url, config);
+	};
+
+	// Successful writes drop cached reads of the same resource
+	const invalidateAfter = <T>(url: string, request: Promise<T>) =>
+		request.then(async (data) => {
+			await cache?.invalidate(url);
+			return data;
+		});
+
+	const post = <T, U = unknown>(url: string, data?: U, config?: ApiRequestConfig) =>
+		invalidateAfter(url, send((merged) => client.post<T>(url, data, merged), config));
+
+	const put = <T, U = unknown>(url: string, data?: U, config?: ApiRequestConfig) =>
+		invalidateAfter(url, send((merged) => client.put<T>(url, data, merged), config));
+
+	const del = <T>(url: string, config?: ApiRequestConfig) =>
+		invalidateAfter(url, send((merged) => client.delete<T>(url, merged), config));
+
+	return {
+		get,
+		post,
+		put,
+		delete: del,
+	};
+};
+
+export type ApiMethods = ReturnType<typeof createApiMethods>;
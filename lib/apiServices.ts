@@ -0,0 +1,25 @@
+import { createApiClient } from "./createApiClient";
+import type { ApiClient } from "./createApiClient";
+import { getServiceProxyUrl, validateServiceConfig } from "./serviceConfig";
+import type { ServiceName } from "./serviceConfig";
+
+// Fails at startup, naming every missing or malformed URL, instead of
+// sending requests to the page origin later
+validateServiceConfig();
+
+const clients: Partial<Record<ServiceName, ApiClient>> = {};
+
+/**
+ * Preconfigured client for a backend service, reached through the session
+ * proxy so the access token stays server-side. Every service, identity
+ * included, refreshes and replays on an expired session the same way.
+ * Created on first use.
+ */
+export const getServiceClient = (name: ServiceName): ApiClient => {
+	const existing = clients[name];
+	if (existing) return existing;
+
+	const client = createApiClient({ baseURL: getServiceProxyUrl(name) });
+	clients[name] = client;
+	return client;
+};
@@ -1,81 +1,154 @@
 import axios from "axios";
-import type { AxiosInstance } from "axios";
-import Cookies from "js-cookie";
-import Router from "next/router";
-import { refreshToken } from "../services/authservice";
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+import { createApiCache } from "./apiCache";
+import type { CacheOptions } from "./apiCache";
+import { isApiError, toApiError } from "./apiError";
+import { createApiMethods } from "./apiMethods";
+import { getCsrfHeaders } from "./csrfToken";
+import type { ApiMethods } from "./apiMethods";
+import { attachRetry } from "./retry";
+import { LOGIN_PATH } from "./return-to";
+import type { RetryOptions } from "./retry";
+import {
+	clearSession,
+	getSessionExpiry,
+	hasSession,
+	hasSessionChangedSince,
+	isSessionExpiring,
+	redirectToLogin,
+	refreshSession,
+	startTokenRefreshScheduler,
+} from "./tokenRefresh";
+
+export type AuthStrategy = "session" | "none";
+
+export interface ApiClientOptions {
+	baseURL: string | undefined;
+	/**
+	 * How requests are authenticated. Defaults to "session": HttpOnly cookies
+	 * sent to the same-origin proxy, which attaches the bearer token.
+	 */
+	auth?: AuthStrategy;
+	/** Refresh and replay on an expired token; without it a 401 ends the session. Defaults to true. */
+	refresh?: boolean;
+	/** Where to send the user once the session is gone; false to stay put. Defaults to LOGIN_PATH. */
+	redirectTo?: string | false;
+	/** Send cookies with cross-origin requests. Defaults to true. */
+	withCredentials?: boolean;
+	/** Backoff for transient failures; false to disable. Retries idempotent requests by default. */
+	retry?: RetryOptions | false;
+	/** Per-route GET response cache; off unless given. */
+	cache?: CacheOptions;
+}
+
+export type ApiClient = AxiosInstance & { api: ApiMethods };
+
+type RetriableRequest = AxiosRequestConfig & { _retry?: boolean; _sessionExpiry?: number | null };
+
+// The CSRF token must never leave the app's own origin
+const isSameOrigin = (client: AxiosInstance, config: AxiosRequestConfig) => {
+	if (typeof window === "undefined") return false;
+	try {
+		return new URL(client.getUri(config), window.location.href).origin === window.location.origin;
+	} catch {
+		return false;
+	}
+};
+
+export const createApiClient = (
+	options: string | ApiClientOptions,
+): ApiClient => {
+	const {
+		baseURL,
+		auth = "session",
+		refresh = true,
+		redirectTo = LOGIN_PATH,
+		withCredentials = true,
+		retry = {},
+		cache,
+	} = typeof options === "string" ? { baseURL: options } : options;
+	const canRefresh = auth === "session" && refresh;
 
-export const createApiClient = (baseURL: string): AxiosInstance => {
 	const apiClient = axios.create({
 		baseURL,
 		headers: {
 			"Content-Type": "application/json",
 		},
-		withCredentials: true,
+		withCredentials,
 	});
 
+	if (canRefresh) {
+		startTokenRefreshScheduler();
+	}
+
 	apiClient.interceptors.request.use(
-		(config) => {
-			const token = Cookies.get("token");
-			if (token) {
-				config.headers.Authorization = `Bearer ${token}`;
+		async (config) => {
+			if (isSameOrigin(apiClient, config)) {
+				// Read per request: middleware rotates the token
+				Object.entries(getCsrfHeaders(config.method)).forEach(([name, value]) => {
+					config.headers.set(name, value);
+				});
+			}
+			if (auth === "none") return config;
+
+			if (canRefresh && isSessionExpiring()) {
+				// Refresh up front rather than paying for a rejected round-trip;
+				// if it fails the response interceptor still gets its chance
+				await refreshSession().catch(() => undefined);
 			}
+			// Remembered so a 401 can tell whether the session was refreshed since
+			(config as RetriableRequest)._sessionExpiry = getSessionExpiry();
 			return config;
 		},
 		(error) => Promise.reject(error),
 	);
 
+	if (retry) {
+		attachRetry(apiClient, retry);
+	}
+
 	apiClient.interceptors.response.use(
 		(response) => response,
 		async (error) => {
-			const originalRequest = error.config as import(
-				"axios"
-			).AxiosRequestConfig & { _retry?: boolean };
-			const errorMessage = error.response?.data?.message || "";
-			if (errorMessage.includes("Unauthorized or invalid token")) {
-				try {
-					const oldToken = Cookies.get("refresh_token");
-					const userId = Cookies.get("user_id");
+			// Already handled by the chain of a replayed request
+			if (isApiError(error)) return Promise.reject(error);
 
-					if (!oldToken || !userId) {
-						throw new Error("Missing token or userId for refresh");
-					}
-					const refreshResponse = await refreshToken({
-						refresh_token: oldToken,
-						user_id: userId,
-					});
+			// Every failure leaves the client as an ApiError
+			const apiError = toApiError(error);
+			if (auth === "none" || apiError.kind !== "auth-expired") {
+				return Promise.reject(apiError);
+			}
 
-					const newAccessToken = refreshResponse.data.jwtToken;
-					if (!newAccessToken) throw new Error("Failed to retrieve new token");
+			const originalRequest = error.config as RetriableRequest;
+			if (canRefresh && !originalRequest._retry) {
+				originalRequest._retry = true;
 
-					Cookies.set("token", newAccessToken);
-					originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
+				if (hasSessionChangedSince(originalRequest._sessionExpiry ?? null)) {
+					return apiClient(originalRequest);
+				}
 
+				try {
+					await refreshSession();
 					return apiClient(originalRequest);
-				} catch (refreshError) {
-					const refreshErrorMsg = refreshError.response?.data?.message || "";
-
-					if (
-						refreshError.response?.status === 400 ||
-						refreshErrorMsg.includes("Refresh token is invalid")
-					) {
-						Cookies.remove("token");
-						Cookies.remove("refresh_token");
-						Cookies.remove("user_id");
-						Router.push("/login");
+				} catch {
+					if (!hasSession() && redirectTo) {
+						redirectToLogin(redirectTo);
 					}
-					return Promise.reject(refreshError);	
+					return Promise.reject(apiError);
 				}
 			}
 
-			// if (error.response?.status === 401) {
-			//   Cookies.remove('token');
-			//   Cookies.remove('userId');
-			//   Router.push('/login');
-			// }
-
-			return Promise.reject(error);
+			// Refresh is off or already failed for this request: the session is over,
+			// and it is ended before redirecting so middleware cannot bounce the user back
+			clearSession();
+			if (redirectTo) {
+				redirectToLogin(redirectTo);
+			}
+			return Promise.reject(apiError);
 		},
 	);
 
-	return apiClient;
+	const responseCache = cache ? createApiCache(cache, baseURL ?? "") : undefined;
+
+	return Object.assign(apiClient, { api: createApiMethods(apiClient, responseCache) });
 };
@@ -0,0 +1,268 @@
+/**
+ * Content Security Policy Builder
+ * Composes CSP Level 3 policies from a base policy and per-feature fragments
+ */
+
+import { createLogger } from './logger';
+
+const logger = createLogger('csp-builder');
+
+// Directives whose value is a source list
+export const SOURCE_LIST_DIRECTIVES = [
+  'default-src',
+  'script-src',
+  'script-src-elem',
+  'script-src-attr',
+  'style-src',
+  'style-src-elem',
+  'style-src-attr',
+  'img-src',
+  'font-src',
+  'connect-src',
+  'media-src',
+  'object-src',
+  'frame-src',
+  'child-src',
+  'worker-src',
+  'manifest-src',
+  'base-uri',
+  'form-action',
+  'frame-ancestors'
+] as const;
+
+export type CSPSourceListDirective = typeof SOURCE_LIST_DIRECTIVES[number];
+
+export type CSPListDirective =
+  | CSPSourceListDirective
+  | 'sandbox'
+  | 'trusted-types'
+  | 'require-trusted-types-for'
+  | 'report-uri';
+
+export type CSPFlagDirective = 'upgrade-insecure-requests' | 'block-all-mixed-content';
+
+export type CSPPolicy = {
+  [directive in CSPListDirective]?: string[];
+} & {
+  [directive in CSPFlagDirective]?: boolean;
+} & {
+  'report-to'?: string;
+};
+
+export type CSPDirective = keyof CSPPolicy;
+
+export class CSPSourceError extends Error {
+  constructor(
+    public readonly directive: string,
+    public readonly source: string,
+    reason: string
+  ) {
+    super(`Invalid CSP source "${source}" in ${directive}: ${reason}`);
+    this.name = 'CSPSourceError';
+  }
+}
+
+const KEYWORDS = [
+  "'self'",
+  "'none'",
+  "'unsafe-inline'",
+  "'unsafe-eval'",
+  "'unsafe-hashes'",
+  "'strict-dynamic'",
+  "'report-sample'",
+  "'wasm-unsafe-eval'",
+  "'unsafe-allow-redirects'",
+  "'inline-speculation-rules'"
+];
+
+const NONCE_OR_HASH = /^'(nonce-[A-Za-z0-9+/_-]+={0,2}|sha(256|384|512)-[A-Za-z0-9+/_-]+={0,2})'$/;
+const SCHEME_SOURCE = /^[a-z][a-z0-9+.-]*:$/i;
+// [scheme://](*|*.host|host)[:port|:*][/path]
+const HOST_SOURCE = /^([a-z][a-z0-9+.-]*:\/\/)?(\*|(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*)(:(\d{1,5}|\*))?(\/[^\s;,]*)?$/i;
+const SANDBOX_TOKENS = [
+  'allow-downloads',
+  'allow-forms',
+  'allow-modals',
+  'allow-orientation-lock',
+  'allow-pointer-lock',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-presentation',
+  'allow-same-origin',
+  'allow-scripts',
+  'allow-top-navigation',
+  'allow-top-navigation-by-user-activation',
+  'allow-top-navigation-to-custom-protocols'
+];
+const TRUSTED_TYPES_POLICY = /^[A-Za-z0-9\-#=_/@.%]+$/;
+
+/**
+ * Throw a CSPSourceError when a value is not valid for its directive
+ */
+export function validateSourceExpression(directive: CSPListDirective, source: string): void {
+  const fail = (reason: string) => {
+    throw new CSPSourceError(directive, source, reason);
+  };
+
+  if (!source || /[\s;,]/.test(source)) {
+    fail('sources must be non-empty and contain no whitespace, commas or semicolons');
+  }
+
+  switch (directive) {
+    case 'sandbox':
+      if (!SANDBOX_TOKENS.includes(source)) fail('not a sandbox token');
+      return;
+    case 'require-trusted-types-for':
+      if (source !== "'script'") fail("only 'script' is allowed");
+      return;
+    case 'trusted-types':
+      if (!["'none'", "'allow-duplicates'", '*'].includes(source) && !TRUSTED_TYPES_POLICY.test(source)) {
+        fail('not a Trusted Types policy name');
+      }
+      return;
+    case 'report-uri':
+      if (!source.startsWith('/') && !/^https?:\/\//i.test(source)) fail('must be a path or an http(s) URL');
+      return;
+  }
+
+  if (source.startsWith("'")) {
+    if (!KEYWORDS.includes(source) && !NONCE_OR_HASH.test(source)) fail('unknown keyword, nonce or hash');
+    return;
+  }
+
+  const bareKeyword = `'${source}'`;
+  if (KEYWORDS.includes(bareKeyword)) {
+    fail(`keywords must be quoted, use ${bareKeyword}`);
+  }
+
+  if (!SCHEME_SOURCE.test(source) && !HOST_SOURCE.test(source)) {
+    fail('not a scheme, host or keyword source');
+  }
+}
+
+/**
+ * Validate a whole policy, throwing on the first malformed source
+ */
+export function validateCSPPolicy(policy: CSPPolicy): void {
+  Object.entries(policy).forEach(([directive, value]) => {
+    if (!Array.isArray(value)) return;
+
+    value.forEach(source => validateSourceExpression(directive as CSPListDirective, source));
+
+    if (value.includes("'none'") && value.length > 1) {
+      throw new CSPSourceError(directive, "'none'", 'must be the only source in the directive');
+    }
+  });
+}
+
+/**
+ * Merge policies left to right; source lists are unioned without duplicates
+ * and an earlier 'none' gives way to real sources
+ */
+export function mergeCSPPolicies(...policies: CSPPolicy[]): CSPPolicy {
+  const merged: Record<string, string[] | boolean | string> = {};
+
+  policies.forEach(policy => {
+    Object.entries(policy).forEach(([directive, value]) => {
+      if (value === undefined) return;
+      if (!Array.isArray(value)) {
+        merged[directive] = value;
+        return;
+      }
+
+      const current = (merged[directive] as string[] | undefined) ?? [];
+      const combined = Array.from(new Set([...current, ...value]));
+      merged[directive] = combined.length > 1 ? combined.filter(source => source !== "'none'") : combined;
+    });
+  });
+
+  return merged as CSPPolicy;
+}
+
+export interface CSPBuilder {
+  /** Merge a fragment into the policy */
+  merge(fragment: CSPPolicy): CSPBuilder;
+  /** Add sources to a directive */
+  add(directive: CSPListDirective, ...sources: string[]): CSPBuilder;
+  /** Remove sources from a directive, or the whole directive when none are given */
+  remove(directive: CSPDirective, ...sources: string[]): CSPBuilder;
+  /** Set a flag directive or report-to */
+  set<K extends CSPFlagDirective | 'report-to'>(directive: K, value: CSPPolicy[K]): CSPBuilder;
+  /** Validate and return the policy */
+  build(): CSPPolicy;
+}
+
+/**
+ * Immutable builder: every call returns a new builder, so a shared base can
+ * be specialised per environment without leaking changes
+ */
+export function createCSPBuilder(base: CSPPolicy = {}): CSPBuilder {
+  const policy = mergeCSPPolicies(base);
+
+  return {
+    merge: fragment => createCSPBuilder(mergeCSPPolicies(policy, fragment)),
+    add: (directive, ...sources) => createCSPBuilder(mergeCSPPolicies(policy, { [directive]: sources })),
+    remove: (directive, ...sources) => {
+      const next: CSPPolicy = { ...policy };
+      const current = next[directive];
+      if (sources.length === 0 || !Array.isArray(current)) {
+        delete next[directive];
+      } else {
+        (next as Record<string, string[]>)[directive] = current.filter(source => !sources.includes(source));
+      }
+      return createCSPBuilder(next);
+    },
+    set: (directive, value) => createCSPBuilder({ ...policy, [directive]: value }),
+    build: () => {
+      validateCSPPolicy(policy);
+      return mergeCSPPolicies(policy);
+    }
+  };
+}
+
+// Feature fragments
+
+export const googleFragment: CSPPolicy = {
+  'script-src': [
+    "https://www.gstatic.com",
+    "https://apis.google.com",
+    "https://www.google.com",
+    "https://www.googletagmanager.com"
+  ],
+  'style-src': ["https://fonts.googleapis.com", "https://www.gstatic.com"],
+  'font-src': ["https://fonts.gstatic.com"],
+  'frame-src': ["https://www.google.com"]
+};
+
+export const firebaseFragment: CSPPolicy = {
+  'connect-src': [
+    "https://www.gstatic.com",
+    "https://firebaseinstallations.googleapis.com",
+    "https://fcmregistrations.googleapis.com",
+    "https://firebase.googleapis.com"
+  ]
+};
+
+export const facebookFragment: CSPPolicy = {
+  'script-src': ["https://connect.facebook.net", "https://www.facebook.com"],
+  'frame-src': ["https://www.facebook.com"]
+};
+
+/**
+ * connect-src fragment for backend API origins
+ * The origins come from the environment, so one CSP cannot express (an IPv6
+ * host, for instance) is logged and left out instead of failing the build
+ */
+export function apiDomainsFragment(origins: string[]): CSPPolicy {
+  return {
+    'connect-src': origins.filter(origin => {
+      try {
+        validateSourceExpression('connect-src', origin);
+        return true;
+      } catch (error) {
+        logger.warn('API origin left out of CSP', { origin, reason: (error as Error).message });
+        return false;
+      }
+    })
+  };
+}
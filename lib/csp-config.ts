@@ -3,187 +3,181 @@
  * OWASP Compliant CSP settings for different environments
  */
 
-export interface CSPConfig {
-  'default-src': string[];
-  'script-src': string[];
-  'style-src': string[];
-  'font-src': string[];
-  'img-src': string[];
-  'connect-src': string[];
-  'frame-src': string[];
-  'object-src': string[];
-  'base-uri': string[];
-  'form-action': string[];
-  'frame-ancestors': string[];
-  'upgrade-insecure-requests': boolean;
-  'block-all-mixed-content': boolean;
-}
+import {
+  apiDomainsFragment,
+  createCSPBuilder,
+  facebookFragment,
+  firebaseFragment,
+  googleFragment
+} from './csp-builder';
+import type { CSPPolicy } from './csp-builder';
+import { getAPIConnectSources } from './api-domains';
 
-// Development CSP - More permissive for development tools
-export const developmentCSP: CSPConfig = {
+export type CSPConfig = CSPPolicy;
+
+// Violation reports are posted here (see api/csp-report/route.ts)
+export const CSP_REPORT_ENDPOINT = '/api/csp-report';
+export const CSP_REPORT_GROUP = 'csp-endpoint';
+
+// Base policy shared by every environment
+const baseCSP = createCSPBuilder({
   'default-src': ["'self'"],
-  'script-src': [
-    "'self'",
-    "'unsafe-inline'", // Required for Next.js dev mode
-    "'unsafe-eval'", // Required for Next.js dev mode and React DevTools
-    "https://www.gstatic.com",
-    "https://apis.google.com",
-    "https://www.google.com",
-    "https://www.googletagmanager.com",
-    "https://connect.facebook.net",
-    "https://www.facebook.com",
-    "localhost:*", // Allow localhost for development
-    "127.0.0.1:*"
-  ],
+  'script-src': ["'self'"],
   'style-src': [
     "'self'",
-    "'unsafe-inline'", // Required for styled-components and CSS-in-JS
-    "https://fonts.googleapis.com",
-    "https://www.gstatic.com"
-  ],
-  'font-src': [
-    "'self'",
-    "https://fonts.gstatic.com",
-    "data:"
-  ],
-  'img-src': [
-    "'self'",
-    "data:",
-    "blob:",
-    "https:",
-    "http:", // Allow HTTP images in development
-    "localhost:*",
-    "127.0.0.1:*"
-  ],
-  'connect-src': [
-    "'self'",
-    "https://api.github.com",
-    "https://www.gstatic.com",
-    "https://firebaseinstallations.googleapis.com",
-    "https://fcmregistrations.googleapis.com",
-    "https://firebase.googleapis.com",
-    "http://13.229.196.7:8000", // API server
-    "http://13.229.196.7:8089", // Notification server
-    "wss:",
-    "ws:", // Allow WebSocket connections for dev server
-    "localhost:*",
-    "127.0.0.1:*"
-  ],
-  'frame-src': [
-    "'self'",
-    "https://www.google.com",
-    "https://www.facebook.com"
+    "'unsafe-inline'" // Required for styled-components and CSS-in-JS
   ],
+  'font-src': ["'self'", "data:"],
+  'img-src': ["'self'", "data:", "blob:", "https:"],
+  'connect-src': ["'self'", "https://api.github.com"],
+  'frame-src': ["'self'"],
   'object-src': ["'none'"],
   'base-uri': ["'self'"],
   'form-action': ["'self'"],
   'frame-ancestors': ["'none'"],
-  'upgrade-insecure-requests': false, // Disabled in development
-  'block-all-mixed-content': false
+  'report-uri': [CSP_REPORT_ENDPOINT], // Legacy browsers
+  'report-to': CSP_REPORT_GROUP
+})
+  .merge(googleFragment)
+  .merge(facebookFragment)
+  .merge(firebaseFragment);
+
+// Policies that include API origins are built on first use, not at import:
+// building them reads the service registry and logs skipped origins
+const memoize = (build: () => CSPConfig) => {
+  let policy: CSPConfig | undefined;
+  return () => (policy ??= build());
 };
 
+// Development CSP - More permissive for development tools
+export const getDevelopmentCSP = memoize(() => baseCSP
+  .merge(apiDomainsFragment(getAPIConnectSources(false)))
+  .merge({
+    'script-src': [
+      "'unsafe-inline'", // Required for Next.js dev mode
+      "'unsafe-eval'", // Required for Next.js dev mode and React DevTools
+      "localhost:*", // Allow localhost for development
+      "127.0.0.1:*"
+    ],
+    'img-src': ["http:", "localhost:*", "127.0.0.1:*"], // Allow HTTP images in development
+    'connect-src': ["wss:", "ws:", "localhost:*", "127.0.0.1:*"] // Allow WebSocket connections for dev server
+  })
+  .set('upgrade-insecure-requests', false) // Disabled in development
+  .set('block-all-mixed-content', false)
+  .build());
+
 // Production CSP - Strict security for production
-export const productionCSP: CSPConfig = {
-  'default-src': ["'self'"],
-  'script-src': [
-    "'self'",
-    // Remove unsafe-inline and unsafe-eval for production
-    "https://www.gstatic.com",
-    "https://apis.google.com",
-    "https://www.google.com",
-    "https://www.googletagmanager.com",
-    "https://connect.facebook.net",
-    "https://www.facebook.com"
-  ],
-  'style-src': [
-    "'self'",
-    "'unsafe-inline'", // Still needed for some CSS-in-JS libraries
-    "https://fonts.googleapis.com",
-    "https://www.gstatic.com"
-  ],
-  'font-src': [
-    "'self'",
-    "https://fonts.gstatic.com",
-    "data:"
-  ],
-  'img-src': [
-    "'self'",
-    "data:",
-    "blob:",
-    "https:" // Only HTTPS images in production
-  ],
-  'connect-src': [
-    "'self'",
-    "https://api.github.com",
-    "https://www.gstatic.com",
-    "https://firebaseinstallations.googleapis.com",
-    "https://fcmregistrations.googleapis.com",
-    "https://firebase.googleapis.com",
-    "http://13.229.196.7:8000", // API server
-    "http://13.229.196.7:8089", // Notification server
-    "wss:" // Secure WebSocket only
-  ],
-  'frame-src': [
-    "'self'",
-    "https://www.google.com",
-    "https://www.facebook.com"
-  ],
-  'object-src': ["'none'"],
-  'base-uri': ["'self'"],
-  'form-action': ["'self'"],
-  'frame-ancestors': ["'none'"],
-  'upgrade-insecure-requests': true,
-  'block-all-mixed-content': true
-};
+// WebSocket origins come from the socket services, so there is no blanket wss:
+const productionBaseCSP = baseCSP
+  .set('upgrade-insecure-requests', true)
+  .set('block-all-mixed-content', true);
+
+// API origins come from the service registry; insecure ones need an allowlist entry
+export const getProductionCSP = memoize(() => productionBaseCSP
+  .merge(apiDomainsFragment(getAPIConnectSources(true)))
+  .build());
+
+// Report-only CSP - Stricter candidate for production, monitored before enforcement
+// Drops 'unsafe-inline' styles (nonce instead) and every insecure API origin, allowlisted or not
+export const getReportOnlyProductionCSP = memoize(() => productionBaseCSP
+  .merge(apiDomainsFragment(getAPIConnectSources(true, { ignoreAllowlist: true })))
+  .remove('style-src', "'unsafe-inline'")
+  .build());
+
+/**
+ * Request header used to expose the per-request nonce to pages
+ */
+export const NONCE_HEADER = 'x-nonce';
 
 /**
  * Convert CSP config object to CSP header string
+ * When a nonce is given, script-src is locked to it with 'strict-dynamic',
+ * and style-src gets it too unless it still relies on 'unsafe-inline'
+ * (a nonce would make browsers ignore 'unsafe-inline')
  */
-export function buildCSPHeader(config: CSPConfig): string {
+export function buildCSPHeader(config: CSPConfig, nonce?: string): string {
   const directives: string[] = [];
 
   Object.entries(config).forEach(([key, value]) => {
-    if (key === 'upgrade-insecure-requests' || key === 'block-all-mixed-content') {
+    if (typeof value === 'boolean') {
+      // Flag directives have no value
       if (value) {
-        directives.push(key.replace(/-/g, '-'));
+        directives.push(key);
       }
     } else if (Array.isArray(value)) {
-      directives.push(`${key} ${value.join(' ')}`);
+      let sources = value;
+      if (nonce && key === 'script-src') {
+        sources = [...value, `'nonce-${nonce}'`, "'strict-dynamic'"];
+      } else if (nonce && key === 'style-src' && !value.includes("'unsafe-inline'")) {
+        sources = [...value, `'nonce-${nonce}'`];
+      }
+      directives.push(`${key} ${sources.join(' ')}`);
+    } else if (key === 'report-to' && value) {
+      directives.push(`${key} ${value}`);
     }
   });
 
   return directives.join('; ');
 }
 
+/**
+ * Reporting-Endpoints header value defining the CSP report-to group
+ */
+export function getReportingEndpointsHeader(): string {
+  return `${CSP_REPORT_GROUP}="${CSP_REPORT_ENDPOINT}"`;
+}
+
+/**
+ * Whether the report-only policy has been promoted to enforced
+ * Set CSP_ENFORCE_REPORT_ONLY=true once its violation reports are clean
+ */
+export function isReportOnlyPromoted(): boolean {
+  return process.env.CSP_ENFORCE_REPORT_ONLY === 'true';
+}
+
 /**
  * Get CSP configuration based on environment
  */
 export function getCSPConfig(): CSPConfig {
   const isProduction = process.env.NODE_ENV === 'production';
-  return isProduction ? productionCSP : developmentCSP;
+  if (!isProduction) {
+    return getDevelopmentCSP();
+  }
+  return isReportOnlyPromoted() ? getReportOnlyProductionCSP() : getProductionCSP();
+}
+
+/**
+ * Get the report-only CSP configuration, or null when none is staged
+ */
+export function getReportOnlyCSPConfig(): CSPConfig | null {
+  const isProduction = process.env.NODE_ENV === 'production';
+  return isProduction && !isReportOnlyPromoted() ? getReportOnlyProductionCSP() : null;
 }
 
 /**
  * Get CSP header string for current environment
  */
-export function getCSPHeader(): string {
-  return buildCSPHeader(getCSPConfig());
+export function getCSPHeader(nonce?: string): string {
+  return buildCSPHeader(getCSPConfig(), nonce);
 }
 
-// Nonce generation for inline scripts (if needed)
+/**
+ * Get report-only CSP header string, or null when none is staged
+ */
+export function getReportOnlyCSPHeader(nonce?: string): string | null {
+  const config = getReportOnlyCSPConfig();
+  return config ? buildCSPHeader(config, nonce) : null;
+}
+
+/**
+ * Generate a base64 nonce for inline scripts
+ * Works in the browser, Node.js and the Edge runtime (no Buffer there)
+ */
 export function generateNonce(): string {
-  if (typeof window !== 'undefined' && window.crypto) {
-    // Browser environment
-    return Buffer.from(window.crypto.getRandomValues(new Uint8Array(16))).toString('base64');
-  } else if (typeof global !== 'undefined' && global.crypto) {
-    // Node.js environment with crypto global
-    return Buffer.from(global.crypto.getRandomValues(new Uint8Array(16))).toString('base64');
-  } else {
-    // Fallback for environments without crypto
-    const array = new Uint8Array(16);
-    for (let i = 0; i < array.length; i++) {
-      array[i] = Math.floor(Math.random() * 256);
-    }
-    return Buffer.from(array).toString('base64');
+  if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+    throw new Error('Secure random number generator is not available for CSP nonce generation');
   }
+
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
 }
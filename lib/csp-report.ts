@@ -0,0 +1,195 @@
+/**
+ * CSP Violation Reporting
+ * Normalizes, deduplicates and aggregates browser CSP violation reports
+ */
+
+export type CSPDisposition = 'enforce' | 'report';
+
+export interface CSPViolation {
+  directive: string;
+  blockedUri: string;
+  documentUri: string;
+  disposition: CSPDisposition;
+  sourceFile?: string;
+  lineNumber?: number;
+  sample?: string;
+}
+
+export interface CSPViolationRecord extends CSPViolation {
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface CSPViolationSummary {
+  totalReports: number;
+  uniqueViolations: number;
+  directives: Record<string, {
+    count: number;
+    blockedUris: { blockedUri: string; count: number }[];
+  }>;
+}
+
+// Content types browsers use for CSP reports
+export const CSP_REPORT_CONTENT_TYPES = ['application/csp-report', 'application/reports+json', 'application/json'];
+
+// Reports are small; anything bigger is not a browser report
+export const MAX_REPORT_BYTES = 64 * 1024;
+
+const MAX_TRACKED_VIOLATIONS = 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_REPORTS = 60;
+
+// In-memory per server instance; reset on deploy
+const violations = new Map<string, CSPViolationRecord>();
+const rateLimits = new Map<string, { windowStart: number; count: number }>();
+let totalReports = 0;
+
+type RawReport = Record<string, unknown>;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Strip query strings and fragments so the same resource dedupes to one entry
+ */
+function normalizeUri(uri: string | undefined): string {
+  if (!uri) return 'unknown';
+  try {
+    const url = new URL(uri);
+    return url.protocol === 'data:' || url.protocol === 'blob:'
+      ? url.protocol.slice(0, -1)
+      : `${url.origin}${url.pathname}`;
+  } catch {
+    // Keywords such as "inline", "eval" or "self"
+    return uri;
+  }
+}
+
+/**
+ * "script-src-elem 'self'" and "script-src" both reduce to the directive name
+ */
+function normalizeDirective(directive: string | undefined): string {
+  return directive?.trim().split(/\s+/)[0]?.toLowerCase() || 'unknown';
+}
+
+function fromLegacyReport(report: RawReport): CSPViolation {
+  return {
+    directive: normalizeDirective(asString(report['effective-directive']) ?? asString(report['violated-directive'])),
+    blockedUri: normalizeUri(asString(report['blocked-uri'])),
+    documentUri: normalizeUri(asString(report['document-uri'])),
+    disposition: report.disposition === 'report' ? 'report' : 'enforce',
+    sourceFile: asString(report['source-file']),
+    lineNumber: asNumber(report['line-number']),
+    sample: asString(report['script-sample'])
+  };
+}
+
+function fromReportingApi(report: RawReport): CSPViolation {
+  return {
+    directive: normalizeDirective(asString(report.effectiveDirective)),
+    blockedUri: normalizeUri(asString(report.blockedURL)),
+    documentUri: normalizeUri(asString(report.documentURL)),
+    disposition: report.disposition === 'report' ? 'report' : 'enforce',
+    sourceFile: asString(report.sourceFile),
+    lineNumber: asNumber(report.lineNumber),
+    sample: asString(report.sample)
+  };
+}
+
+/**
+ * Accept both the legacy `{ "csp-report": {...} }` body and Reporting API batches
+ */
+export function normalizeCSPReports(payload: unknown): CSPViolation[] {
+  if (Array.isArray(payload)) {
+    return payload
+      .filter((entry): entry is RawReport => Boolean(entry) && entry.type === 'csp-violation' && typeof entry.body === 'object')
+      .map(entry => fromReportingApi(entry.body as RawReport));
+  }
+
+  const legacy = (payload as RawReport | null)?.['csp-report'];
+  if (legacy && typeof legacy === 'object') {
+    return [fromLegacyReport(legacy as RawReport)];
+  }
+
+  return [];
+}
+
+/**
+ * Fixed-window rate limit per client IP
+ */
+export function isRateLimited(ip: string, now: number = Date.now()): boolean {
+  const entry = rateLimits.get(ip);
+  if (!entry || now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    // Drop expired windows so the map cannot grow without bound
+    rateLimits.forEach((value, key) => {
+      if (now - value.windowStart >= RATE_LIMIT_WINDOW_MS) rateLimits.delete(key);
+    });
+    rateLimits.set(ip, { windowStart: now, count: 1 });
+    return false;
+  }
+
+  entry.count += 1;
+  return entry.count > RATE_LIMIT_MAX_REPORTS;
+}
+
+/**
+ * Record violations, deduplicated by directive and blocked URI
+ */
+export function recordCSPViolations(reports: CSPViolation[], now: Date = new Date()): void {
+  reports.forEach(report => {
+    totalReports += 1;
+    const key = `${report.directive}|${report.blockedUri}`;
+    const existing = violations.get(key);
+
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeen = now.toISOString();
+      return;
+    }
+
+    if (violations.size >= MAX_TRACKED_VIOLATIONS) {
+      return;
+    }
+
+    violations.set(key, {
+      ...report,
+      count: 1,
+      firstSeen: now.toISOString(),
+      lastSeen: now.toISOString()
+    });
+  });
+}
+
+/**
+ * Violation counts per directive, most frequent blocked URIs first
+ */
+export function getViolationSummary(): CSPViolationSummary {
+  const directives: CSPViolationSummary['directives'] = {};
+
+  violations.forEach(record => {
+    const entry = directives[record.directive] ??= { count: 0, blockedUris: [] };
+    entry.count += record.count;
+    entry.blockedUris.push({ blockedUri: record.blockedUri, count: record.count });
+  });
+
+  Object.values(directives).forEach(entry => {
+    entry.blockedUris.sort((a, b) => b.count - a.count);
+  });
+
+  return {
+    totalReports,
+    uniqueViolations: violations.size,
+    directives
+  };
+}
+
+/**
+ * Every deduplicated violation, most frequent first
+ */
+export function getViolationRecords(): CSPViolationRecord[] {
+  return Array.from(violations.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,24 @@
+/**
+ * CSRF Guard
+ * Wraps route handlers so state-changing requests must pass the CSRF checks
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { CSRF_ERROR_CODE, validateCsrfRequest } from "./csrf";
+import { getAPISecurityHeaders } from "./security-headers";
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response> | Response;
+
+export function withCsrfProtection<Context>(handler: RouteHandler<Context>): RouteHandler<Context> {
+    return (request, context) => {
+        const failure = validateCsrfRequest(request);
+        if (failure) {
+            return NextResponse.json(
+                { code: CSRF_ERROR_CODE, reason: failure, message: "CSRF validation failed" },
+                { status: 403, headers: getAPISecurityHeaders() }
+            );
+        }
+        return handler(request, context);
+    };
+}
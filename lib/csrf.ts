@@ -0,0 +1,95 @@
+/**
+ * CSRF Protection
+ * Double-submit token: middleware keeps a readable __Host- cookie current and
+ * clients echo it in a header on state-changing requests
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+
+export const CSRF_COOKIE = "__Host-aimx_csrf";
+export const CSRF_HEADER = "X-CSRF-Token";
+/** `code` of the 403 body, turned into an ApiError of kind "csrf" on the client */
+export const CSRF_ERROR_CODE = "CSRF_INVALID";
+
+// Tokens older than this are replaced on the next page request
+const CSRF_ROTATE_AFTER_MS = 60 * 60 * 1000;
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export type CsrfFailure = "missing-origin" | "origin-mismatch" | "missing-token" | "token-mismatch";
+
+export function isStateChangingMethod(method: string | undefined): boolean {
+    return !SAFE_METHODS.includes((method ?? "GET").toUpperCase());
+}
+
+/**
+ * `<issued at, base 36>.<32 random bytes, base64url>`
+ */
+export function generateCsrfToken(): string {
+    const bytes = globalThis.crypto.getRandomValues(new Uint8Array(32));
+    const random = btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    return `${Date.now().toString(36)}.${random}`;
+}
+
+function needsRotation(token: string | undefined): boolean {
+    const issuedAt = parseInt(token?.split(".")[0] ?? "", 36);
+    return !Number.isFinite(issuedAt) || Date.now() - issuedAt > CSRF_ROTATE_AFTER_MS;
+}
+
+/**
+ * Set a new token; script has to read it, so it is not HttpOnly
+ */
+export function setCsrfCookie(response: NextResponse, token: string = generateCsrfToken()): NextResponse {
+    response.cookies.set(CSRF_COOKIE, token, { secure: true, path: "/", sameSite: "strict" });
+    return response;
+}
+
+/**
+ * Issue a token when the request has none, or rotate one that is too old
+ */
+export function ensureCsrfCookie(request: NextRequest, response: NextResponse): NextResponse {
+    return needsRotation(request.cookies.get(CSRF_COOKIE)?.value) ? setCsrfCookie(response) : response;
+}
+
+function getTrustedOrigins(request: NextRequest): string[] {
+    const configured = process.env.CSRF_TRUSTED_ORIGINS?.split(",").map((origin) => origin.trim()).filter(Boolean);
+    return [request.nextUrl.origin, ...(configured ?? [])];
+}
+
+function getRequestOrigin(request: NextRequest): string | null {
+    const origin = request.headers.get("origin");
+    if (origin && origin !== "null") return origin;
+
+    const referer = request.headers.get("referer");
+    if (!referer) return null;
+    try {
+        return new URL(referer).origin;
+    } catch {
+        return null;
+    }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let difference = 0;
+    for (let index = 0; index < a.length; index++) {
+        difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+    }
+    return difference === 0;
+}
+
+/**
+ * Why a state-changing request fails the Origin/Referer and token checks, or null when it passes
+ */
+export function validateCsrfRequest(request: NextRequest): CsrfFailure | null {
+    if (!isStateChangingMethod(request.method)) return null;
+
+    const origin = getRequestOrigin(request);
+    if (!origin) return "missing-origin";
+    if (!getTrustedOrigins(request).includes(origin)) return "origin-mismatch";
+
+    const cookieToken = request.cookies.get(CSRF_COOKIE)?.value;
+    const headerToken = request.headers.get(CSRF_HEADER);
+    if (!cookieToken || !headerToken) return "missing-token";
+    return safeEqual(cookieToken, headerToken) ? null : "token-mismatch";
+}
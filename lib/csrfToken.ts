@@ -0,0 +1,13 @@
+import Cookies from "js-cookie";
+import { CSRF_COOKIE, CSRF_HEADER, isStateChangingMethod } from "./csrf";
+
+export const getCsrfToken = () => Cookies.get(CSRF_COOKIE);
+
+/**
+ * Header to echo the CSRF cookie on a state-changing request. Empty for safe
+ * methods and when no token has been issued yet.
+ */
+export const getCsrfHeaders = (method: string | undefined): Record<string, string> => {
+	const token = getCsrfToken();
+	return token && isStateChangingMethod(method) ? { [CSRF_HEADER]: token } : {};
+};
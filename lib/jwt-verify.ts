@@ -0,0 +1,105 @@
+/**
+ * JWT Verification
+ * Edge-compatible signature and claim checks for the session token
+ */
+
+import { createLocalJWKSet, createRemoteJWKSet, decodeProtectedHeader, jwtVerify } from "jose";
+import type { JSONWebKeySet, JWTPayload, JWTVerifyGetKey, JWTVerifyOptions } from "jose";
+import { createLogger } from "./logger";
+
+const logger = createLogger("jwt-verify");
+
+const HMAC_ALGORITHMS = ["HS256"];
+const ASYMMETRIC_ALGORITHMS = ["RS256", "ES256"];
+
+// Seconds of clock skew tolerated on exp/nbf
+const CLOCK_TOLERANCE = 5;
+
+// Kept across requests in the same isolate; the remote set also caches
+// fetched keys and refetches on an unknown `kid` at most every 30s
+let jwks: JWTVerifyGetKey | null = null;
+let hmacSecret: Uint8Array | null = null;
+
+// Misconfiguration rejects every token; say so once per problem, not per request
+const reportedProblems = new Set<string>();
+
+function reportProblemOnce(problem: string, fields?: Record<string, unknown>) {
+    if (reportedProblems.has(problem)) return;
+    reportedProblems.add(problem);
+    logger.error(problem, fields);
+}
+
+function getJWKS(): JWTVerifyGetKey | null {
+    if (jwks) return jwks;
+
+    if (process.env.JWT_JWKS) {
+        jwks = createLocalJWKSet(JSON.parse(process.env.JWT_JWKS) as JSONWebKeySet);
+    } else if (process.env.JWT_JWKS_URL) {
+        jwks = createRemoteJWKSet(new URL(process.env.JWT_JWKS_URL), {
+            cacheMaxAge: 10 * 60 * 1000,
+            cooldownDuration: 30 * 1000,
+        });
+    }
+    return jwks;
+}
+
+function getHmacSecret(): Uint8Array | null {
+    if (!hmacSecret && process.env.JWT_SECRET) {
+        hmacSecret = new TextEncoder().encode(process.env.JWT_SECRET);
+    }
+    return hmacSecret;
+}
+
+function getClaimOptions(): JWTVerifyOptions {
+    const audience = process.env.JWT_AUDIENCE?.split(",").map((value) => value.trim()).filter(Boolean);
+    return {
+        issuer: process.env.JWT_ISSUER || undefined,
+        audience: audience?.length ? audience : undefined,
+        clockTolerance: CLOCK_TOLERANCE,
+    };
+}
+
+export function isTokenPresent(token: string | null | undefined): token is string {
+    return Boolean(token) && token !== "undefined" && token !== "null" && token!.trim() !== "";
+}
+
+/**
+ * Verify signature, exp, nbf, issuer and audience.
+ * Resolves with the claims, or null for a missing, expired or forged token.
+ */
+export async function verifyAccessToken(token: string | null | undefined): Promise<JWTPayload | null> {
+    if (!isTokenPresent(token)) return null;
+
+    try {
+        const { alg = "" } = decodeProtectedHeader(token);
+        const options = getClaimOptions();
+
+        if (HMAC_ALGORITHMS.includes(alg)) {
+            const secret = getHmacSecret();
+            if (!secret) {
+                reportProblemOnce("JWT_SECRET is not set; every HMAC-signed session token is rejected", { alg });
+                return null;
+            }
+            return (await jwtVerify(token, secret, { ...options, algorithms: HMAC_ALGORITHMS })).payload;
+        }
+
+        if (ASYMMETRIC_ALGORITHMS.includes(alg)) {
+            const keySet = getJWKS();
+            if (!keySet) {
+                reportProblemOnce("Neither JWT_JWKS nor JWT_JWKS_URL is set; every signed session token is rejected", { alg });
+                return null;
+            }
+            return (await jwtVerify(token, keySet, { ...options, algorithms: ASYMMETRIC_ALGORITHMS })).payload;
+        }
+
+        // Anything else, "none" included, is rejected outright
+        // Logged for the first such token only; the header is attacker-controlled
+        reportProblemOnce("Session token with an unsupported algorithm rejected", {
+            alg,
+            supported: [...HMAC_ALGORITHMS, ...ASYMMETRIC_ALGORITHMS],
+        });
+        return null;
+    } catch {
+        return null;
+    }
+}
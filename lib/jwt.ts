@@ -0,0 +1,36 @@
+export type JwtPayload = {
+	exp?: number;
+	iat?: number;
+	nbf?: number;
+	sub?: string;
+	[claim: string]: unknown;
+};
+
+/**
+ * Reads the payload of a JWT without verifying it. Only use the result for
+ * client-side hints such as expiry scheduling, never for authorization.
+ */
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+	const [, payload] = token.split(".");
+	if (!payload) return null;
+
+	try {
+		const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+		const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+		const json = decodeURIComponent(
+			Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`).join(""),
+		);
+		const decoded = JSON.parse(json);
+		return decoded && typeof decoded === "object" ? decoded : null;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Expiry of a JWT in epoch milliseconds, or null when it has no `exp` claim.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+	const exp = decodeJwtPayload(token)?.exp;
+	return typeof exp === "number" ? exp * 1000 : null;
+};
@@ -0,0 +1,117 @@
+/**
+ * Logger
+ * Levelled logging with JSON lines on the server and automatic redaction of
+ * tokens, cookies and Authorization headers
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /** Logger that adds these fields to every entry */
+    child(fields: LogFields): Logger;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+export const REDACTED = "[REDACTED]";
+
+// Field names whose values are never logged, at any depth
+const SENSITIVE_KEY = /token|authorization|cookie|password|secret|csrf|jwt|api[-_]?key/i;
+// Secrets that turn up inside otherwise harmless strings
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi;
+
+const MAX_DEPTH = 5;
+
+const isServer = () => typeof window === "undefined";
+
+/**
+ * LOG_LEVEL on the server, NEXT_PUBLIC_LOG_LEVEL in the browser; defaults to
+ * "debug" in development and "info" (server) or "warn" (browser) elsewhere
+ */
+export function getLogLevel(): LogLevel {
+    const configured = (isServer() ? process.env.LOG_LEVEL : process.env.NEXT_PUBLIC_LOG_LEVEL)?.toLowerCase();
+    if (configured && LEVELS.includes(configured as LogLevel)) {
+        return configured as LogLevel;
+    }
+    if (process.env.NODE_ENV === "development") return "debug";
+    return isServer() ? "info" : "warn";
+}
+
+function redactString(value: string): string {
+    return value.replace(JWT_PATTERN, REDACTED).replace(BEARER_PATTERN, `$1 ${REDACTED}`);
+}
+
+/**
+ * Copy of a value that is safe to log: sensitive fields are replaced, strings
+ * are scrubbed of JWTs and credentials, errors keep name, message and stack
+ */
+export function redact(value: unknown, depth = 0, ancestors: WeakSet<object> = new WeakSet()): unknown {
+    if (typeof value === "string") return redactString(value);
+    if (value === null || typeof value !== "object") return value;
+    if (ancestors.has(value)) return "[Circular]";
+    if (depth >= MAX_DEPTH) return "[Truncated]";
+
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: redactString(value.message),
+            stack: value.stack && redactString(value.stack),
+        };
+    }
+    if (value instanceof Headers) {
+        return redact(Object.fromEntries(value.entries()), depth, ancestors);
+    }
+
+    ancestors.add(value);
+    const copy = Array.isArray(value)
+        ? value.map((item) => redact(item, depth + 1, ancestors))
+        : Object.fromEntries(
+              Object.entries(value).map(([key, nested]) => [
+                  key,
+                  SENSITIVE_KEY.test(key) ? REDACTED : redact(nested, depth + 1, ancestors),
+              ])
+          );
+    // Only an object's own ancestors make it circular; shared references are fine
+    ancestors.delete(value);
+    return copy;
+}
+
+function write(level: Exclude<LogLevel, "silent">, scope: string, message: string, fields: LogFields) {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(getLogLevel())) return;
+
+    const safeFields = redact(fields) as LogFields;
+    const safeMessage = redactString(message);
+    const method = level === "debug" ? "log" : level;
+
+    if (isServer()) {
+        // One JSON object per line for log collectors
+        console[method](JSON.stringify({ time: new Date().toISOString(), level, scope, message: safeMessage, ...safeFields }));
+    } else if (Object.keys(safeFields).length > 0) {
+        console[method](`[${scope}] ${safeMessage}`, safeFields);
+    } else {
+        console[method](`[${scope}] ${safeMessage}`);
+    }
+}
+
+/**
+ * Logger for one module, e.g. createLogger("middleware")
+ */
+export function createLogger(scope: string, bindings: LogFields = {}): Logger {
+    const log = (level: Exclude<LogLevel, "silent">) => (message: string, fields: LogFields = {}) =>
+        write(level, scope, message, { ...bindings, ...fields });
+
+    return {
+        debug: log("debug"),
+        info: log("info"),
+        warn: log("warn"),
+        error: log("error"),
+        child: (fields) => createLogger(scope, { ...bindings, ...fields }),
+    };
+}
@@ -1,109 +1,81 @@
 // middleware.ts
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-
-const protectedRoutes = [
-    "/dashboard",
-    // "/organizations",
-    "/project-dockets",
-    "/datasets",
-    // "/user-management",
-    // "/audit-logs",
-    // "/forms",
-    // "/request-approval",
-    // "/role-access",
-    // "/settings",
-    
-];
-
-export function middleware(request: NextRequest) {
-    const token = request.cookies.get("token")?.value || null;
+import { generateNonce, getCSPHeader, NONCE_HEADER } from "./csp-config";
+import { ensureCsrfCookie } from "./csrf";
+import { isTokenPresent, verifyAccessToken } from "./jwt-verify";
+import { createLogger } from "./logger";
+import { buildLoginUrl, getPostLoginRedirect, LOGIN_PATH, RETURN_TO_PARAM } from "./return-to";
+import { checkRouteAccess, FORBIDDEN_PATH } from "./route-permissions";
+import { applySecurityHeaders } from "./security-headers";
+import { clearSessionCookies, SESSION_COOKIES } from "./session-cookies";
+import { getSessionStartedAt, getSessionState, touchSession } from "./session-timeouts";
+
+const logger = createLogger("middleware");
+
+export async function middleware(request: NextRequest) {
+    const token = request.cookies.get(SESSION_COOKIES.access)?.value || null;
     const { pathname } = request.nextUrl;
 
-    console.log("token", token);
-    console.log("pathname", pathname);
+    // Route guards come from ROUTE_PERMISSIONS; only a verified token counts,
+    // and only while the session is within its idle and absolute timeouts
+    const verifiedClaims = await verifyAccessToken(token);
+    const claims = verifiedClaims && (await getSessionState(request, verifiedClaims)) === "active" ? verifiedClaims : null;
+    const hasRejectedToken = isTokenPresent(token) && !claims;
+    const access = checkRouteAccess(pathname, claims);
+    logger.debug("Route access", { pathname, access, sessionRejected: hasRejectedToken });
+
+    if (access === "unauthenticated") {
+        // Keep the requested page so login can bring the user back to it
+        const loginUrl = buildLoginUrl(LOGIN_PATH, `${pathname}${request.nextUrl.search}`);
+        const response = NextResponse.redirect(new URL(loginUrl, request.url));
+        return hasRejectedToken ? clearSessionCookies(response) : response;
+    }
 
-    // Block access to protected routes without token
-    if ((!token || token === "undefined")  && protectedRoutes.some((route) => pathname.startsWith(route))) {
-        return NextResponse.redirect(new URL("/", request.url));
+    if (access === "forbidden") {
+        return NextResponse.redirect(new URL(FORBIDDEN_PATH, request.url));
     }
 
     // Prevent logged-in user from going back to login page
-    if (token && pathname === "/") {
-        // return NextResponse.redirect(new URL("/dashboard", request.url));
-        return NextResponse.redirect(new URL("/organizations", request.url));
+    if (claims && pathname === LOGIN_PATH) {
+        const destination = getPostLoginRedirect(request.nextUrl.searchParams.get(RETURN_TO_PARAM), claims);
+        return NextResponse.redirect(new URL(destination, request.url));
+    }
+
+    // Per-request nonce: forwarded to pages via request headers so Next.js
+    // can stamp its inline scripts, and enforced through the response CSP
+    const nonce = generateNonce();
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set(NONCE_HEADER, nonce);
+    requestHeaders.set("Content-Security-Policy", getCSPHeader(nonce));
+
+    const response = NextResponse.next({ request: { headers: requestHeaders } });
+    applySecurityHeaders(response.headers, nonce);
+    // Every page load issues or rotates the CSRF token clients echo back
+    ensureCsrfCookie(request, response);
+
+    // Navigating counts as activity
+    if (claims) {
+        const startedAt = (await getSessionStartedAt(request, claims)) ?? Date.now();
+        await touchSession(response, startedAt, request.cookies.get(SESSION_COOKIES.user)?.value);
     }
 
-    return NextResponse.next();
+    // Expired, forged or timed-out sessions are dropped even on public pages
+    return hasRejectedToken ? clearSessionCookies(response) : response;
 }
 
 // Define paths where middleware should apply
+// Every page needs its own nonce, so only API routes, static assets and prefetches are skipped.
+// This also covers every route in ROUTE_PERMISSIONS; Next.js only accepts a literal matcher,
+// so the protected paths are deliberately not repeated here
 export const config = {
     matcher: [
-        "/",
-        "/dashboard",
-        // "/organizations",
-        "/project-dockets",
-        "/datasets",
-        // "/user-management",
-        // "/audit-logs",
-        // "/forms",
-        // "/request-approval",
-        // "/role-access",
-        // "/settings",
+        {
+            source: "/((?!api|_next/static|_next/image|favicon.ico).*)",
+            missing: [
+                { type: "header", key: "next-router-prefetch" },
+                { type: "header", key: "purpose", value: "prefetch" },
+            ],
+        },
     ],
 };
-// middleware.ts
-// import { NextResponse } from "next/server";
-// import type { NextRequest } from "next/server";
-// import { jwtVerify } from "jose";
-
-// const protectedRoutes = [
-//   "/dashboard",
-//   "/organizations",
-//   "/project-dockets",
-//   "/datasets",
-//   "/user-management",
-//   "/audit-logs",
-//   "/forms",
-//   "/request-approval",
-//   "/role-access",
-//   "/settings",
-// ];
-
-// async function isValidToken(token: string | null): Promise<boolean> {
-//   if (!token || token === "undefined" || token === "null" || token.trim() === "") {
-//     return false;
-//   }
-
-//   try {
-//     const secret = new TextEncoder().encode(process.env.JWT_SECRET);
-//     await jwtVerify(token, secret); // ⏱ auto-checks expiration too
-//     return true;
-//   } catch {
-//     return false;
-//   }
-// }
-
-// export async function middleware(request: NextRequest) {
-//   const token = request.cookies.get("token")?.value || null;
-//   const pathname = request.nextUrl.pathname;
-
-//   const isTokenValid = await isValidToken(token);
-//   console.log("isTokenValid", isTokenValid);
-
-//   if (!isTokenValid && protectedRoutes.some((route) => pathname.startsWith(route))) {
-//     return NextResponse.redirect(new URL("/", request.url));
-//   }
-
-//   if (isTokenValid && pathname === "/") {
-//     return NextResponse.redirect(new URL("/dashboard", request.url));
-//   }
-
-//   return NextResponse.next();
-// }
-
-// export const config = {
-//   matcher: ["/", ...protectedRoutes],
-// };
-
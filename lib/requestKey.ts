@@ -0,0 +1,19 @@
+// Key order must not matter when comparing params
+const stableStringify = (value: unknown): string => {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "undefined";
+};
+
+/**
+ * Identifies a GET by URL and params, e.g. for deduplication and caching.
+ */
+export const getRequestKey = (url: string, params?: unknown) =>
+	`${url} ${stableStringify(params ?? {})}`;
+
+export const getRequestKeyUrl = (key: string) => key.slice(0, key.indexOf(" "));
@@ -0,0 +1,138 @@
+import axios from "axios";
+import type { AxiosError, AxiosInstance, AxiosRequestConfig, GenericAbortSignal } from "axios";
+import { isApiError } from "./apiError";
+
+export interface RetryOptions {
+	/** Attempts after the first one. Defaults to 3. */
+	retries?: number;
+	/** Delay cap for the first retry; doubles on every attempt. Defaults to 300ms. */
+	baseDelayMs?: number;
+	/** Upper bound for any single wait. A longer Retry-After fails the request instead. Defaults to 10s. */
+	maxDelayMs?: number;
+	/** Response statuses worth retrying. Network errors and timeouts always are. */
+	statuses?: number[];
+	/** Methods retried without an idempotency key. */
+	idempotentMethods?: string[];
+	/** Header that makes POST/PUT/PATCH safe to replay. */
+	idempotencyKeyHeader?: string;
+}
+
+type RetryState = AxiosRequestConfig & { _retryCount?: number };
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+	retries: 3,
+	baseDelayMs: 300,
+	maxDelayMs: 10_000,
+	statuses: [429, 502, 503, 504],
+	idempotentMethods: ["get", "head", "options", "delete"],
+	idempotencyKeyHeader: "Idempotency-Key",
+};
+
+const hasHeader = (config: AxiosRequestConfig, name: string) => {
+	const headers = config.headers as Record<string, unknown> | undefined;
+	if (!headers) return false;
+	const wanted = name.toLowerCase();
+	return Object.keys(headers).some(
+		(key) => key.toLowerCase() === wanted && Boolean(headers[key]),
+	);
+};
+
+const isReplayable = (config: AxiosRequestConfig, options: Required<RetryOptions>) => {
+	const method = (config.method ?? "get").toLowerCase();
+	return (
+		options.idempotentMethods.includes(method) ||
+		hasHeader(config, options.idempotencyKeyHeader)
+	);
+};
+
+const isRetriableFailure = (error: AxiosError, options: Required<RetryOptions>) => {
+	// ApiErrors come out of an already-replayed request and are final
+	if (axios.isCancel(error) || isApiError(error)) return false;
+	if (!error.response) return true;
+	return options.statuses.includes(error.response.status);
+};
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date; returns milliseconds.
+ */
+export const parseRetryAfter = (value: unknown): number | null => {
+	if (typeof value !== "string" || value.trim() === "") return null;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Full-jitter exponential backoff, unless the server told us how long to wait.
+ * Null when the server asks for longer than maxDelayMs: retrying sooner would
+ * only be refused again.
+ */
+const getRetryDelay = (
+	attempt: number,
+	error: AxiosError,
+	options: Required<RetryOptions>,
+): number | null => {
+	const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+	if (retryAfter !== null) return retryAfter <= options.maxDelayMs ? retryAfter : null;
+
+	const ceiling = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+	return Math.random() * ceiling;
+};
+
+// Resolves with false instead of waiting out the delay once the request is aborted
+const wait = (ms: number, signal?: GenericAbortSignal) =>
+	new Promise<boolean>((resolve) => {
+		if (signal?.aborted) return resolve(false);
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve(false);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener?.("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal?.addEventListener?.("abort", onAbort, { once: true });
+	});
+
+/**
+ * Replays failed requests on flaky gateways (network errors, 429, 502-504).
+ * Register it before the auth interceptor so it only ever sees transport
+ * failures, never expired sessions.
+ */
+export const attachRetry = (client: AxiosInstance, retryOptions: RetryOptions = {}) => {
+	const options = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+
+	client.interceptors.response.use(
+		(response) => response,
+		async (error: AxiosError) => {
+			const config = error.config as RetryState | undefined;
+			if (
+				!config ||
+				!isRetriableFailure(error, options) ||
+				!isReplayable(config, options)
+			) {
+				return Promise.reject(error);
+			}
+
+			const attempt = config._retryCount ?? 0;
+			if (attempt >= options.retries) {
+				return Promise.reject(error);
+			}
+
+			const delay = getRetryDelay(attempt, error, options);
+			if (delay === null) {
+				return Promise.reject(error);
+			}
+
+			config._retryCount = attempt + 1;
+			if (!(await wait(delay, config.signal))) {
+				return Promise.reject(new axios.CanceledError(undefined, error.config));
+			}
+			return client(config);
+		},
+	);
+};
@@ -0,0 +1,59 @@
+/**
+ * Post-Login Return
+ * Carries the requested page through login without allowing open redirects
+ */
+
+import type { JwtPayload } from "./jwt";
+import { checkRouteAccess, getDefaultLandingPage } from "./route-permissions";
+
+export const RETURN_TO_PARAM = "returnTo";
+
+/** The sign-in page, shared by middleware and every client-side redirect */
+export const LOGIN_PATH = "/";
+
+// Placeholder origin used only to resolve and compare relative paths
+const RESOLVE_BASE = "https://return-to.invalid";
+
+/**
+ * Accept only a same-origin path such as "/datasets/12?tab=files".
+ * Absolute and protocol-relative URLs, backslash tricks and control characters are rejected.
+ */
+export function sanitizeReturnTo(value: string | null | undefined): string | null {
+    if (!value || !value.startsWith("/") || value.startsWith("//")) return null;
+    if (value.includes("\\") || /[\u0000-\u001f\u007f]/.test(value)) return null;
+
+    try {
+        const url = new URL(value, RESOLVE_BASE);
+        if (url.origin !== RESOLVE_BASE || url.pathname === "/") return null;
+
+        // Dot segments can normalize into "//host", which browsers read as another origin
+        const normalized = `${url.pathname}${url.search}${url.hash}`;
+        return normalized.startsWith("//") ? null : normalized;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Login URL that brings the user back to `returnTo` afterwards
+ */
+export function buildLoginUrl(loginPath: string, returnTo?: string | null): string {
+    const safeReturnTo = sanitizeReturnTo(returnTo);
+    if (!safeReturnTo) return loginPath;
+
+    const separator = loginPath.includes("?") ? "&" : "?";
+    return `${loginPath}${separator}${RETURN_TO_PARAM}=${encodeURIComponent(safeReturnTo)}`;
+}
+
+/**
+ * Where to send a freshly signed-in user: the requested page when it is safe
+ * and they may open it, otherwise the landing page for their role
+ */
+export function getPostLoginRedirect(returnTo: string | null | undefined, claims: JwtPayload): string {
+    const safeReturnTo = sanitizeReturnTo(returnTo);
+    if (safeReturnTo) {
+        const { pathname } = new URL(safeReturnTo, RESOLVE_BASE);
+        if (checkRouteAccess(pathname, claims) !== "forbidden") return safeReturnTo;
+    }
+    return getDefaultLandingPage(claims);
+}
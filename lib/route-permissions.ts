@@ -0,0 +1,99 @@
+/**
+ * Route Permissions
+ * Single declarative map of protected routes and who may open them
+ */
+
+import type { JwtPayload } from "./jwt";
+
+export interface RouteRule {
+    /** Path pattern; `:param` matches one segment and nested paths are covered too */
+    path: string;
+    /** Any one of these roles grants access */
+    roles?: string[];
+    /** Every one of these permissions is required */
+    permissions?: string[];
+}
+
+export type RouteAccess = "public" | "allowed" | "unauthenticated" | "forbidden";
+
+// A rule without roles or permissions only requires a signed-in user
+export const ROUTE_PERMISSIONS: RouteRule[] = [
+    { path: "/dashboard" },
+    { path: "/organizations" },
+    { path: "/project-dockets" },
+    { path: "/datasets" },
+    { path: "/forms" },
+    { path: "/request-approval" },
+    { path: "/settings" },
+    { path: "/user-management", roles: ["super_admin", "admin"] },
+    { path: "/audit-logs", roles: ["super_admin", "admin", "auditor"] },
+    { path: "/role-access", roles: ["super_admin"] },
+];
+
+export const FORBIDDEN_PATH = "/unauthorized";
+
+// First matching role wins; everyone else lands on DEFAULT_LANDING_PAGE
+export const ROLE_LANDING_PAGES: { role: string; path: string }[] = [
+    { role: "super_admin", path: "/organizations" },
+    { role: "auditor", path: "/audit-logs" },
+];
+
+export const DEFAULT_LANDING_PAGE = "/organizations";
+
+const compiledRules = ROUTE_PERMISSIONS.map((rule) => {
+    const pattern = rule.path
+        .split("/")
+        .map((segment) =>
+            segment.startsWith(":") ? "[^/]+" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        )
+        .join("/");
+    return { rule, regex: new RegExp(`^${pattern}(?:/.*)?$`) };
+});
+
+/**
+ * Most specific rule guarding the path, if any
+ */
+export function findRouteRule(pathname: string): RouteRule | undefined {
+    return compiledRules
+        .filter(({ regex }) => regex.test(pathname))
+        .sort((a, b) => b.rule.path.length - a.rule.path.length)[0]?.rule;
+}
+
+const toStringList = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.filter((item): item is string => typeof item === "string");
+    if (typeof value === "string") return value.split(/[\s,]+/).filter(Boolean);
+    return [];
+};
+
+/**
+ * Roles and permissions as issued in the token (`roles`/`role`, `permissions`/`scope`)
+ */
+export function getAccessClaims(claims: JwtPayload) {
+    return {
+        roles: [...toStringList(claims.roles), ...toStringList(claims.role)],
+        permissions: [...toStringList(claims.permissions), ...toStringList(claims.scope)],
+    };
+}
+
+/**
+ * Decide whether the holder of these claims may open the path
+ */
+export function checkRouteAccess(pathname: string, claims: JwtPayload | null): RouteAccess {
+    const rule = findRouteRule(pathname);
+    if (!rule) return "public";
+    if (!claims) return "unauthenticated";
+
+    const { roles, permissions } = getAccessClaims(claims);
+    const hasRole = !rule.roles?.length || rule.roles.some((role) => roles.includes(role));
+    const hasPermissions = (rule.permissions ?? []).every((permission) => permissions.includes(permission));
+
+    return hasRole && hasPermissions ? "allowed" : "forbidden";
+}
+
+/**
+ * Landing page after login for the holder of these claims
+ */
+export function getDefaultLandingPage(claims: JwtPayload): string {
+    const { roles } = getAccessClaims(claims);
+    return ROLE_LANDING_PAGES.find(({ role }) => roles.includes(role))?.path ?? DEFAULT_LANDING_PAGE;
+}
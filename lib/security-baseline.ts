@@ -0,0 +1,273 @@
+/**
+ * Security Baseline
+ * Snapshots of the effective headers, CSP and test results, diffed on later
+ * runs so a deploy cannot silently weaken them
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { getHeader, parseCSP } from './security-test';
+import type { RecordedResponse, SecuritySeverity, SecurityTestSuite } from './security-test';
+
+export interface SecurityRuleSnapshot {
+  passed: boolean;
+  /** Worst severity among failed checks, or among all checks when every one passed */
+  severity: SecuritySeverity;
+}
+
+export interface SecuritySnapshot {
+  /** Tracked security headers, lower-cased, nonces masked */
+  headers: Record<string, string>;
+  /** Enforced CSP directives, nonces masked */
+  csp: Record<string, string[]>;
+  results: Record<string, SecurityRuleSnapshot>;
+  /** Change ids accepted for the next comparison, see SecurityBaselineChange.id */
+  approved: string[];
+}
+
+export interface SecurityBaseline {
+  version: 1;
+  createdAt: string;
+  /** Keyed by getBaselineKey(target) */
+  targets: Record<string, SecuritySnapshot>;
+}
+
+export type SecurityBaselineChangeKind =
+  | 'source-added'
+  | 'source-removed'
+  | 'directive-added'
+  | 'directive-removed'
+  | 'header-added'
+  | 'header-removed'
+  | 'header-changed'
+  | 'regression'
+  | 'improvement'
+  | 'new-target';
+
+export interface SecurityBaselineChange {
+  /** Stable id; copy it into the target's "approved" list to accept the change */
+  id: string;
+  kind: SecurityBaselineChangeKind;
+  description: string;
+  /** Weakening changes fail the run unless approved */
+  blocking: boolean;
+  approved: boolean;
+}
+
+export interface SecurityBaselineDiff {
+  target: string;
+  changes: SecurityBaselineChange[];
+  /** Blocking changes that are not approved in the baseline */
+  unapproved: SecurityBaselineChange[];
+}
+
+// Reporting directives only say where violations go; every other change that
+// widens the policy blocks
+export const REPORTING_CSP_DIRECTIVES = ['report-uri', 'report-to'];
+
+export const TRACKED_HEADERS = [
+  'content-security-policy',
+  'content-security-policy-report-only',
+  'reporting-endpoints',
+  'strict-transport-security',
+  'x-frame-options',
+  'x-content-type-options',
+  'x-xss-protection',
+  'referrer-policy',
+  'permissions-policy',
+  'cross-origin-opener-policy',
+  'cross-origin-embedder-policy',
+  'cross-origin-resource-policy',
+  'x-powered-by'
+];
+
+// Headers that disclose information or are deprecated; dropping them is hardening,
+// and whether their values are safe is judged by the rule results
+export const REMOVABLE_HEADERS = ['x-powered-by', 'x-xss-protection'];
+
+const SEVERITY_ORDER: SecuritySeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Nonces change on every request and would make every run differ
+const maskNonces = (value: string) => value.replace(/'nonce-[^']*'/g, "'nonce-*'");
+
+const worstSeverity = (severities: SecuritySeverity[]): SecuritySeverity =>
+  severities.reduce((worst, severity) =>
+    SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(worst) ? severity : worst
+  , 'low');
+
+/**
+ * Baseline key for a target; URL ports are ignored so the fixture server's
+ * ephemeral port does not create a new target on every run
+ */
+export function getBaselineKey(target: string): string {
+  if (!/^https?:\/\//i.test(target)) {
+    return target;
+  }
+  const url = new URL(target);
+  return `${url.hostname}${url.pathname}`;
+}
+
+/**
+ * Snapshot a scanned response; approvals start empty
+ */
+export function createSecuritySnapshot(response: RecordedResponse, suite: SecurityTestSuite): SecuritySnapshot {
+  const headers: Record<string, string> = {};
+  TRACKED_HEADERS.forEach(name => {
+    const value = getHeader(response.headers, name);
+    if (value !== undefined) {
+      headers[name] = maskNonces(value);
+    }
+  });
+
+  const csp = parseCSP(headers['content-security-policy'] ?? '');
+  delete csp[''];
+
+  const results: Record<string, SecurityRuleSnapshot> = {};
+  const byRule = new Map<string, SecurityTestSuite['csp']>();
+  [...suite.csp, ...suite.headers, ...suite.cookies].forEach(test => {
+    byRule.set(test.ruleId, [...(byRule.get(test.ruleId) ?? []), test]);
+  });
+  byRule.forEach((tests, ruleId) => {
+    const failed = tests.filter(test => !test.passed);
+    results[ruleId] = {
+      passed: failed.length === 0,
+      severity: worstSeverity((failed.length ? failed : tests).map(test => test.severity))
+    };
+  });
+
+  return { headers, csp, results, approved: [] };
+}
+
+/**
+ * Compare a snapshot against its baseline
+ */
+export function diffSecuritySnapshot(target: string, baseline: SecuritySnapshot | undefined, current: SecuritySnapshot): SecurityBaselineDiff {
+  const changes: Omit<SecurityBaselineChange, 'approved'>[] = [];
+  const add = (kind: SecurityBaselineChangeKind, id: string, description: string, blocking: boolean) => {
+    changes.push({ id, kind, description, blocking });
+  };
+
+  // A target missing from the baseline always needs a baseline update
+  if (!baseline) {
+    const change: SecurityBaselineChange = {
+      id: 'new-target',
+      kind: 'new-target',
+      description: `${target} is not in the baseline`,
+      blocking: true,
+      approved: false
+    };
+    return { target, changes: [change], unapproved: [change] };
+  }
+
+  new Set([...Object.keys(baseline.csp), ...Object.keys(current.csp)]).forEach(directive => {
+    const before = baseline.csp[directive];
+    const after = current.csp[directive];
+    const weakens = !REPORTING_CSP_DIRECTIVES.includes(directive);
+
+    if (before && !after) {
+      // Lifts the restriction, or falls back to default-src
+      add('directive-removed', `${directive}:removed`, `${directive} removed`, weakens);
+    } else if (!before && after) {
+      // A new fetch directive overrides default-src, which may allow more
+      add('directive-added', `${directive}:added`, `${directive} ${after.join(' ')} added`, directive.endsWith('-src'));
+    } else if (before && after) {
+      after
+        .filter(source => !before.includes(source))
+        .forEach(source => add('source-added', `${directive}:+${source}`, `${source} added to ${directive}`, weakens));
+      before
+        .filter(source => !after.includes(source))
+        .forEach(source => add('source-removed', `${directive}:-${source}`, `${source} removed from ${directive}`, false));
+    }
+  });
+
+  TRACKED_HEADERS.forEach(name => {
+    const before = baseline.headers[name];
+    const after = current.headers[name];
+    if (before !== undefined && after === undefined) {
+      add('header-removed', `header:-${name}`, `${name} header removed`, !REMOVABLE_HEADERS.includes(name));
+    } else if (before === undefined && after !== undefined) {
+      add('header-added', `header:+${name}`, `${name} header added`, false);
+    } else if (before !== after && name !== 'content-security-policy') {
+      // CSP changes are reported per directive and source above
+      add('header-changed', `header:~${name}`, `${name} changed from "${before}" to "${after}"`, false);
+    }
+  });
+
+  Object.entries(current.results).forEach(([ruleId, now]) => {
+    const before = baseline.results[ruleId];
+    const rank = (rule: SecurityRuleSnapshot | undefined) =>
+      !rule || rule.passed ? -1 : SEVERITY_ORDER.indexOf(rule.severity);
+
+    if (rank(now) > rank(before)) {
+      const was = before && !before.passed ? `failed (${before.severity})` : 'passed';
+      add('regression', `regression:${ruleId}`, `${ruleId} ${was}, now fails (${now.severity})`, true);
+    } else if (rank(now) < rank(before)) {
+      add('improvement', `improvement:${ruleId}`, `${ruleId} improved`, false);
+    }
+  });
+
+  const withApproval = changes.map(change => ({ ...change, approved: baseline.approved.includes(change.id) }));
+  return {
+    target,
+    changes: withApproval,
+    unapproved: withApproval.filter(change => change.blocking && !change.approved)
+  };
+}
+
+/**
+ * Diff every scanned target against the baseline file
+ */
+export function diffSecurityBaseline(
+  baseline: SecurityBaseline,
+  scans: { target: string; snapshot: SecuritySnapshot }[]
+): SecurityBaselineDiff[] {
+  return scans.map(({ target, snapshot }) =>
+    diffSecuritySnapshot(target, baseline.targets[getBaselineKey(target)], snapshot)
+  );
+}
+
+/**
+ * Read a baseline file, or null when it does not exist yet
+ */
+export function loadSecurityBaseline(file: string): SecurityBaseline | null {
+  if (!existsSync(file)) {
+    return null;
+  }
+  const baseline = JSON.parse(readFileSync(file, 'utf8')) as SecurityBaseline;
+  if (baseline.version !== 1 || typeof baseline.targets !== 'object') {
+    throw new Error(`${file} is not a security baseline`);
+  }
+  return baseline;
+}
+
+/**
+ * Write a fresh baseline; earlier approvals are folded into the snapshots and dropped
+ */
+export function saveSecurityBaseline(file: string, scans: { target: string; snapshot: SecuritySnapshot }[]): SecurityBaseline {
+  const baseline: SecurityBaseline = { version: 1, createdAt: new Date().toISOString(), targets: {} };
+  scans.forEach(({ target, snapshot }) => {
+    baseline.targets[getBaselineKey(target)] = snapshot;
+  });
+  writeFileSync(file, `${JSON.stringify(baseline, null, 2)}\n`);
+  return baseline;
+}
+
+/**
+ * Plain-text summary of baseline diffs
+ */
+export function formatBaselineDiff(diffs: SecurityBaselineDiff[]): string {
+  let report = `Security Baseline Diff\n`;
+  report += `======================\n`;
+
+  diffs.forEach(({ target, changes }) => {
+    report += `\n${target}\n`;
+    if (changes.length === 0) {
+      report += `  No changes\n`;
+    }
+    changes.forEach(change => {
+      const status = !change.blocking ? 'info' : change.approved ? 'approved' : 'UNAPPROVED';
+      report += `  [${status}] ${change.description} (${change.id})\n`;
+    });
+  });
+
+  return report;
+}
@@ -0,0 +1,65 @@
+/**
+ * Security Fixture Server
+ * Local stand-in that serves recorded responses so the scanner can be tested offline
+ */
+
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export interface SecurityFixture {
+  path: string;
+  status?: number;
+  headers: Record<string, string>;
+  setCookies?: string[];
+  body?: string;
+}
+
+export interface FixtureServer {
+  url: string;
+  fixtures: SecurityFixture[];
+  close(): Promise<void>;
+}
+
+/**
+ * Load every *.json fixture in a directory
+ */
+export function loadFixtures(directory: string): SecurityFixture[] {
+  return readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(join(directory, file), 'utf8')) as SecurityFixture);
+}
+
+/**
+ * Serve fixtures on 127.0.0.1; port 0 picks a free port
+ */
+export function startFixtureServer(fixtures: SecurityFixture[], port: number = 0): Promise<FixtureServer> {
+  const server = createServer((request, response) => {
+    const fixture = fixtures.find(candidate => candidate.path === request.url);
+    if (!fixture) {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('No fixture for this path');
+      return;
+    }
+
+    response.writeHead(fixture.status ?? 200, {
+      ...fixture.headers,
+      ...(fixture.setCookies && { 'Set-Cookie': fixture.setCookies })
+    });
+    response.end(fixture.body ?? '');
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        fixtures,
+        close: () => new Promise<void>(done => server.close(() => done()))
+      });
+    });
+  });
+}
@@ -3,7 +3,7 @@
  * OWASP Compliant security headers for web application security
  */
 
-import { getCSPHeader } from './csp-config';
+import { getCSPHeader, getReportOnlyCSPHeader, getReportingEndpointsHeader } from './csp-config';
 
 export interface SecurityHeaders {
   [key: string]: string;
@@ -11,13 +11,23 @@ export interface SecurityHeaders {
 
 /**
  * Get all OWASP compliant security headers
+ * Pass the per-request nonce to get a nonce-based CSP
  */
-export function getSecurityHeaders(): SecurityHeaders {
+export function getSecurityHeaders(nonce?: string): SecurityHeaders {
   const isProduction = process.env.NODE_ENV === 'production';
+  const reportOnlyCSP = getReportOnlyCSPHeader(nonce);
   
   return {
     // Content Security Policy - Primary defense against XSS
-    'Content-Security-Policy': getCSPHeader(),
+    'Content-Security-Policy': getCSPHeader(nonce),
+
+    // Report-only CSP - Stricter policy staged for enforcement, reports but never blocks
+    ...(reportOnlyCSP && {
+      'Content-Security-Policy-Report-Only': reportOnlyCSP
+    }),
+
+    // Reporting-Endpoints - Where browsers send CSP violation reports
+    'Reporting-Endpoints': getReportingEndpointsHeader(),
     
     // X-Frame-Options - Prevent clickjacking attacks
     'X-Frame-Options': 'DENY',
@@ -25,8 +35,8 @@ export function getSecurityHeaders(): SecurityHeaders {
     // X-Content-Type-Options - Prevent MIME type sniffing
     'X-Content-Type-Options': 'nosniff',
     
-    // X-XSS-Protection - Enable XSS filtering (legacy browsers)
-    'X-XSS-Protection': '1; mode=block',
+    // X-XSS-Protection - Disable the legacy XSS auditor; the CSP replaces it
+    'X-XSS-Protection': '0',
     
     // Referrer-Policy - Control referrer information leakage
     'Referrer-Policy': 'strict-origin-when-cross-origin',
@@ -100,7 +110,7 @@ export function getAPISecurityHeaders(): SecurityHeaders {
     'Content-Security-Policy': "default-src 'none'",
     'X-Content-Type-Options': 'nosniff',
     'X-Frame-Options': 'DENY',
-    'X-XSS-Protection': '1; mode=block',
+    'X-XSS-Protection': '0',
     'Referrer-Policy': 'no-referrer',
     'Cross-Origin-Resource-Policy': 'same-origin',
     'Cache-Control': 'no-store, no-cache, must-revalidate',
@@ -123,8 +133,8 @@ export function getStaticAssetHeaders(): SecurityHeaders {
 /**
  * Apply security headers to Next.js response
  */
-export function applySecurityHeaders(headers: Headers): void {
-  const securityHeaders = getSecurityHeaders();
+export function applySecurityHeaders(headers: Headers, nonce?: string): void {
+  const securityHeaders = getSecurityHeaders(nonce);
   
   Object.entries(securityHeaders).forEach(([key, value]) => {
     headers.set(key, value);
@@ -135,9 +145,12 @@ export function applySecurityHeaders(headers: Headers): void {
  * Security headers for different content types
  */
 export const CONTENT_TYPE_HEADERS = {
-  html: {
-    'Content-Type': 'text/html; charset=utf-8',
-    ...getSecurityHeaders()
+  // A getter so the CSP is not built at import
+  get html(): SecurityHeaders {
+    return {
+      'Content-Type': 'text/html; charset=utf-8',
+      ...getSecurityHeaders()
+    };
   },
   json: {
     'Content-Type': 'application/json; charset=utf-8',
@@ -0,0 +1,195 @@
+/**
+ * Security Report Formats
+ * JSON, JUnit XML and SARIF 2.1.0 exports of security test suites
+ */
+
+import { SECURITY_RULES } from './security-rules';
+import type { SecurityRule, SecurityRuleId } from './security-rules';
+import { generateSecurityReport } from './security-test';
+import type { SecuritySeverity, SecurityTestResult, SecurityTestSuite } from './security-test';
+
+export type SecurityReportFormat = 'text' | 'json' | 'junit' | 'sarif';
+
+export const SECURITY_REPORT_FORMATS: SecurityReportFormat[] = ['text', 'json', 'junit', 'sarif'];
+
+/**
+ * A suite together with what was tested (URL, file or "app configuration")
+ */
+export interface SecurityReportTarget {
+  target: string;
+  suite: SecurityTestSuite;
+}
+
+export interface SecurityFinding extends SecurityRule {
+  ruleId: SecurityRuleId;
+  category: 'csp' | 'headers' | 'cookies';
+  passed: boolean;
+  severity: SecuritySeverity;
+  message: string;
+  subject?: string;
+}
+
+const CATEGORIES = ['csp', 'headers', 'cookies'] as const;
+
+// GitHub code scanning reads security-severity as a CVSS-like 0.0-10.0 score
+const SARIF_SECURITY_SEVERITY: Record<SecuritySeverity, string> = {
+  low: '3.0',
+  medium: '5.0',
+  high: '8.0',
+  critical: '9.5'
+};
+
+const SARIF_LEVELS: Record<SecuritySeverity, 'note' | 'warning' | 'error'> = {
+  low: 'note',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error'
+};
+
+function toFinding(category: SecurityFinding['category'], test: SecurityTestResult): SecurityFinding {
+  return { ...test, category, ...SECURITY_RULES[test.ruleId] };
+}
+
+/**
+ * Every result of a suite enriched with its rule metadata
+ */
+export function getSecurityFindings(suite: SecurityTestSuite): SecurityFinding[] {
+  return CATEGORIES.flatMap(category => suite[category].map(test => toFinding(category, test)));
+}
+
+/**
+ * JSON report: overall score plus every finding per target
+ */
+export function toJSONReport(targets: SecurityReportTarget[]): string {
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      targets: targets.map(({ target, suite }) => ({
+        target,
+        overall: suite.overall,
+        findings: getSecurityFindings(suite)
+      }))
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML report: one testsuite per target and category, one testcase per check
+ */
+export function toJUnitReport(targets: SecurityReportTarget[]): string {
+  const suites = targets.flatMap(({ target, suite }) =>
+    CATEGORIES.map(category => {
+      const findings = suite[category].map(test => toFinding(category, test));
+      const failures = findings.filter(finding => !finding.passed).length;
+      const cases = findings.map(finding => {
+        const open = `    <testcase classname="${escapeXml(`${category}.${finding.ruleId}`)}" name="${escapeXml(finding.message)}"`;
+        if (finding.passed) {
+          return `${open}/>`;
+        }
+        const details = `${finding.title} (${finding.owasp})\nRemediation: ${finding.remediation}\nSee ${finding.helpUri}`;
+        return [
+          `${open}>`,
+          `      <failure message="${escapeXml(finding.message)}" type="${finding.severity}">${escapeXml(details)}</failure>`,
+          '    </testcase>'
+        ].join('\n');
+      });
+
+      return [
+        `  <testsuite name="${escapeXml(`${target} ${category}`)}" tests="${findings.length}" failures="${failures}">`,
+        ...cases,
+        '  </testsuite>'
+      ].join('\n');
+    })
+  );
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites name="security">', ...suites, '</testsuites>', ''].join('\n');
+}
+
+/**
+ * SARIF 2.1.0 report for code-scanning dashboards; only failed checks become results
+ */
+export function toSARIFReport(targets: SecurityReportTarget[]): string {
+  const findings = targets.flatMap(({ target, suite }) =>
+    getSecurityFindings(suite).map(finding => ({ target, finding }))
+  );
+  const ruleIds = Object.keys(SECURITY_RULES) as SecurityRuleId[];
+  // A rule's level is the worst severity it was reported with
+  const ruleSeverity = (ruleId: SecurityRuleId): SecuritySeverity =>
+    findings
+      .filter(({ finding }) => finding.ruleId === ruleId)
+      .map(({ finding }) => finding.severity)
+      .sort((a, b) => Number(SARIF_SECURITY_SEVERITY[b]) - Number(SARIF_SECURITY_SEVERITY[a]))[0] ?? 'medium';
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'security-scan',
+            informationUri: 'https://owasp.org/www-project-application-security-verification-standard/',
+            rules: ruleIds.map(ruleId => {
+              const rule = SECURITY_RULES[ruleId];
+              const severity = ruleSeverity(ruleId);
+              return {
+                id: ruleId,
+                name: ruleId,
+                shortDescription: { text: rule.title },
+                help: { text: rule.remediation },
+                helpUri: rule.helpUri,
+                defaultConfiguration: { level: SARIF_LEVELS[severity] },
+                properties: {
+                  tags: ['security', rule.owasp],
+                  'security-severity': SARIF_SECURITY_SEVERITY[severity]
+                }
+              };
+            })
+          }
+        },
+        results: findings
+          .filter(({ finding }) => !finding.passed)
+          .map(({ target, finding }) => ({
+            ruleId: finding.ruleId,
+            ruleIndex: ruleIds.indexOf(finding.ruleId),
+            level: SARIF_LEVELS[finding.severity],
+            message: { text: `${finding.message}. ${finding.remediation}` },
+            locations: [{ physicalLocation: { artifactLocation: { uri: target } } }],
+            // Messages carry values that change between runs; within a location,
+            // the rule and its subject identify the same finding across them
+            partialFingerprints: { securityFinding: [finding.ruleId, finding.subject].filter(Boolean).join(':') },
+            properties: { severity: finding.severity, owasp: finding.owasp }
+          }))
+      }
+    ]
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Render targets in the requested format; text keeps the console report layout
+ */
+export function formatSecurityReport(targets: SecurityReportTarget[], format: SecurityReportFormat): string {
+  switch (format) {
+    case 'json':
+      return toJSONReport(targets);
+    case 'junit':
+      return toJUnitReport(targets);
+    case 'sarif':
+      return toSARIFReport(targets);
+    default:
+      return targets.map(({ target, suite }) => `Target: ${target}\n\n${generateSecurityReport(suite)}`).join('\n\n');
+  }
+}
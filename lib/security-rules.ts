@@ -0,0 +1,185 @@
+/**
+ * Security Rule Catalog
+ * Stable ids, OWASP references and remediation for every security check
+ */
+
+export interface SecurityRule {
+  title: string;
+  /** OWASP ASVS 4.0.3 requirement or OWASP project the check maps to */
+  owasp: string;
+  remediation: string;
+  helpUri: string;
+}
+
+const ASVS = 'https://github.com/OWASP/ASVS/blob/v4.0.3/4.0/en/';
+const ASVS_HEADERS = `${ASVS}0x22-V14-Config.md#v144-http-security-headers`;
+const ASVS_COOKIES = `${ASVS}0x12-V3-Session-management.md#v34-cookie-based-session-management`;
+const SECURE_HEADERS = 'https://owasp.org/www-project-secure-headers/';
+const CSP_CHEAT_SHEET = 'https://cheatsheetseries.owasp.org/cheatsheets/Content_Security_Policy_Cheat_Sheet.html';
+
+export const SECURITY_RULES = {
+  // Content Security Policy
+  'csp-present': {
+    title: 'Content-Security-Policy header is set',
+    owasp: 'ASVS V14.4.3',
+    remediation: 'Send a Content-Security-Policy header on every HTML response (see csp-config.ts).',
+    helpUri: ASVS_HEADERS
+  },
+  'csp-unsafe-inline': {
+    title: "script-src does not allow 'unsafe-inline'",
+    owasp: 'ASVS V14.4.3',
+    remediation: "Remove 'unsafe-inline' from script-src and rely on the per-request nonce with 'strict-dynamic'.",
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-unsafe-eval': {
+    title: "script-src does not allow 'unsafe-eval'",
+    owasp: 'ASVS V14.4.3',
+    remediation: "Remove 'unsafe-eval' from script-src; replace eval and new Function with safe alternatives.",
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-wildcard-source': {
+    title: 'CSP has no wildcard sources',
+    owasp: 'ASVS V14.4.3',
+    remediation: 'Replace * sources with the specific origins the page needs.',
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-object-src': {
+    title: "object-src is 'none'",
+    owasp: 'ASVS V14.4.3',
+    remediation: "Set object-src 'none' to block plugin content.",
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-base-uri': {
+    title: 'base-uri is restricted',
+    owasp: 'ASVS V14.4.3',
+    remediation: "Set base-uri 'self' (or 'none') so injected <base> tags cannot redirect relative URLs.",
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-frame-ancestors': {
+    title: 'frame-ancestors is restricted',
+    owasp: 'ASVS V14.4.7',
+    remediation: "Set frame-ancestors 'none' (or 'self') to prevent clickjacking.",
+    helpUri: ASVS_HEADERS
+  },
+  'csp-upgrade-insecure-requests': {
+    title: 'upgrade-insecure-requests is enabled',
+    owasp: 'ASVS V14.4.3',
+    remediation: 'Enable upgrade-insecure-requests in the production policy.',
+    helpUri: CSP_CHEAT_SHEET
+  },
+  'csp-required-directive': {
+    title: 'CSP defines the required directives',
+    owasp: 'ASVS V14.4.3',
+    remediation: 'Add the directives reported missing by validateCSP.',
+    helpUri: CSP_CHEAT_SHEET
+  },
+
+  // Security headers
+  'hsts-max-age': {
+    title: 'Strict-Transport-Security has a long max-age',
+    owasp: 'ASVS V14.4.5',
+    remediation: 'Send Strict-Transport-Security with max-age of at least 15552000 (six months).',
+    helpUri: ASVS_HEADERS
+  },
+  'hsts-include-subdomains': {
+    title: 'Strict-Transport-Security covers subdomains',
+    owasp: 'ASVS V14.4.5',
+    remediation: 'Add includeSubDomains to Strict-Transport-Security.',
+    helpUri: ASVS_HEADERS
+  },
+  'x-frame-options': {
+    title: 'X-Frame-Options denies framing',
+    owasp: 'ASVS V14.4.7',
+    remediation: 'Send X-Frame-Options: DENY (or SAMEORIGIN).',
+    helpUri: ASVS_HEADERS
+  },
+  'x-content-type-options': {
+    title: 'X-Content-Type-Options is nosniff',
+    owasp: 'ASVS V14.4.4',
+    remediation: 'Send X-Content-Type-Options: nosniff.',
+    helpUri: ASVS_HEADERS
+  },
+  'x-xss-protection': {
+    title: 'X-XSS-Protection is disabled or absent',
+    owasp: 'OWASP Secure Headers Project',
+    remediation: 'Send X-XSS-Protection: 0 or omit it; the legacy auditor can introduce vulnerabilities and CSP replaces it.',
+    helpUri: SECURE_HEADERS
+  },
+  'referrer-policy': {
+    title: 'Referrer-Policy is restrictive',
+    owasp: 'ASVS V14.4.6',
+    remediation: 'Send Referrer-Policy: strict-origin-when-cross-origin (or stricter).',
+    helpUri: ASVS_HEADERS
+  },
+  'cross-origin-opener-policy': {
+    title: 'Cross-Origin-Opener-Policy is set',
+    owasp: 'OWASP Secure Headers Project',
+    remediation: 'Send Cross-Origin-Opener-Policy: same-origin.',
+    helpUri: SECURE_HEADERS
+  },
+  'cross-origin-embedder-policy': {
+    title: 'Cross-Origin-Embedder-Policy is set',
+    owasp: 'OWASP Secure Headers Project',
+    remediation: 'Send Cross-Origin-Embedder-Policy: require-corp (or credentialless).',
+    helpUri: SECURE_HEADERS
+  },
+  'cross-origin-resource-policy': {
+    title: 'Cross-Origin-Resource-Policy is set',
+    owasp: 'OWASP Secure Headers Project',
+    remediation: 'Send Cross-Origin-Resource-Policy: same-origin (or same-site).',
+    helpUri: SECURE_HEADERS
+  },
+  'permissions-policy': {
+    title: 'Permissions-Policy restricts browser features',
+    owasp: 'OWASP Secure Headers Project',
+    remediation: 'Send a Permissions-Policy that disables unused features such as camera, microphone and geolocation.',
+    helpUri: SECURE_HEADERS
+  },
+  'x-powered-by': {
+    title: 'X-Powered-By is not disclosed',
+    owasp: 'ASVS V14.3.3',
+    remediation: 'Remove X-Powered-By (poweredByHeader: false in next.config).',
+    helpUri: `${ASVS}0x22-V14-Config.md#v143-unintended-security-disclosure`
+  },
+
+  // Cookies
+  'cookie-none-set': {
+    title: 'Response sets no cookies',
+    owasp: 'ASVS V3.4',
+    remediation: 'Nothing to do; informational.',
+    helpUri: ASVS_COOKIES
+  },
+  'cookie-httponly': {
+    title: 'Session cookies are HttpOnly',
+    owasp: 'ASVS V3.4.2',
+    remediation: 'Set the HttpOnly attribute on session cookies so scripts cannot read them.',
+    helpUri: ASVS_COOKIES
+  },
+  'cookie-secure': {
+    title: 'Cookies are Secure',
+    owasp: 'ASVS V3.4.1',
+    remediation: 'Set the Secure attribute so cookies are only sent over HTTPS.',
+    helpUri: ASVS_COOKIES
+  },
+  'cookie-samesite': {
+    title: 'Cookies set SameSite',
+    owasp: 'ASVS V3.4.3',
+    remediation: 'Set SameSite=Lax or Strict; SameSite=None requires Secure.',
+    helpUri: ASVS_COOKIES
+  },
+  'cookie-host-prefix': {
+    title: 'Session cookies use the __Host- prefix',
+    owasp: 'ASVS V3.4.4',
+    remediation: 'Name session cookies __Host-<name> with Secure, Path=/ and no Domain attribute.',
+    helpUri: ASVS_COOKIES
+  }
+} satisfies Record<string, SecurityRule>;
+
+export type SecurityRuleId = keyof typeof SECURITY_RULES;
+
+/**
+ * Catalog entry for a rule id
+ */
+export function getSecurityRule(ruleId: SecurityRuleId): SecurityRule {
+  return SECURITY_RULES[ruleId];
+}
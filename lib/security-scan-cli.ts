@@ -0,0 +1,10 @@
+/**
+ * Security Scanner CLI
+ * e.g. npx tsx lib/security-scan-cli.ts https://staging.example.com
+ */
+
+import { runSecurityScanCli } from './security-scan';
+
+runSecurityScanCli(process.argv.slice(2)).then(code => {
+  process.exit(code);
+});
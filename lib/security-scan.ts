@@ -0,0 +1,231 @@
+/**
+ * Security Scanner
+ * Grades a live URL or a saved HAR/headers file with the security test suite
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { loadFixtures, startFixtureServer } from './security-fixture-server';
+import {
+  createSecuritySnapshot,
+  diffSecurityBaseline,
+  formatBaselineDiff,
+  loadSecurityBaseline,
+  saveSecurityBaseline
+} from './security-baseline';
+import { formatSecurityReport, SECURITY_REPORT_FORMATS } from './security-report-formats';
+import type { SecurityReportFormat } from './security-report-formats';
+import { runSecurityTests } from './security-test';
+import type { RecordedResponse, SecurityTestResult, SecurityTestSuite } from './security-test';
+
+export interface SecurityScanResult {
+  target: string;
+  suite: SecurityTestSuite;
+  response: RecordedResponse;
+  /** Failed checks of high or critical severity */
+  blocking: SecurityTestResult[];
+}
+
+export interface SecurityScanOptions {
+  /** Apply production-only checks; defaults to true for scans */
+  isProduction?: boolean;
+}
+
+type HarHeader = { name: string; value: string };
+
+const USAGE = `Usage: security-scan <url | file.har | headers.json | headers.txt>... [options]
+       security-scan --fixtures [directory] [options]
+
+Options:
+  --dev                              Skip production-only checks
+  --format text|json|junit|sarif     Report format (default: text)
+  --output <file>                    Write the report to a file instead of stdout
+  --baseline <file>                  Fail on changes not approved in this baseline
+  --update-baseline                  Write the current results to the baseline file
+
+Exits with 1 when any high or critical check fails or the baseline has unapproved
+changes, 2 on usage or fetch errors.`;
+
+export const DEFAULT_FIXTURE_DIR = join(__dirname, 'fixtures', 'security');
+
+function fromHeaderList(list: HarHeader[]): RecordedResponse {
+  const headers: Record<string, string> = {};
+  const setCookies: string[] = [];
+
+  list.forEach(({ name, value }) => {
+    if (name.toLowerCase() === 'set-cookie') {
+      // HAR exporters sometimes join several cookies with newlines
+      setCookies.push(...value.split('\n').filter(Boolean));
+    } else {
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+  });
+
+  return { headers, setCookies };
+}
+
+/**
+ * Parse raw "Name: value" header lines; an HTTP status line is skipped
+ */
+export function parseRawHeaders(text: string): RecordedResponse {
+  const list = text
+    .split(/\r?\n/)
+    .filter(line => line.includes(':') && !/^HTTP\/\d/i.test(line))
+    .map(line => {
+      const separator = line.indexOf(':');
+      return { name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() };
+    });
+  return fromHeaderList(list);
+}
+
+/**
+ * Use the first HTML document in a HAR capture, falling back to the first entry
+ */
+export function parseHar(har: { log?: { entries?: { response?: { headers?: HarHeader[]; content?: { mimeType?: string } } }[] } }): RecordedResponse {
+  const entries = har.log?.entries ?? [];
+  const entry = entries.find(candidate => candidate.response?.content?.mimeType?.includes('text/html')) ?? entries[0];
+  if (!entry?.response?.headers) {
+    throw new Error('HAR file contains no response headers');
+  }
+  return fromHeaderList(entry.response.headers);
+}
+
+/**
+ * Load a recorded response from a .har, a { headers, setCookies } JSON file or raw header text
+ */
+export function loadRecordedResponse(file: string): RecordedResponse {
+  const content = readFileSync(file, 'utf8');
+  if (!content.trimStart().startsWith('{')) {
+    return parseRawHeaders(content);
+  }
+
+  const json = JSON.parse(content);
+  if (json.log) {
+    return parseHar(json);
+  }
+  return { headers: json.headers ?? {}, setCookies: json.setCookies ?? [] };
+}
+
+/**
+ * Fetch a URL and record its headers and cookies
+ */
+export async function fetchRecordedResponse(url: string): Promise<RecordedResponse> {
+  const response = await fetch(url, { redirect: 'follow' });
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie') {
+      headers[name] = value;
+    }
+  });
+  return { headers, setCookies: response.headers.getSetCookie() };
+}
+
+/**
+ * Scan one target: http(s) URLs are fetched, anything else is read from disk
+ */
+export async function scanTarget(target: string, options: SecurityScanOptions = {}): Promise<SecurityScanResult> {
+  const response = /^https?:\/\//i.test(target)
+    ? await fetchRecordedResponse(target)
+    : loadRecordedResponse(target);
+
+  const suite = runSecurityTests({ response, isProduction: options.isProduction ?? true });
+  const blocking = [...suite.csp, ...suite.headers, ...suite.cookies]
+    .filter(test => !test.passed && (test.severity === 'high' || test.severity === 'critical'));
+
+  return { target, suite, response, blocking };
+}
+
+/**
+ * Serve the fixtures from the stand-in server and scan each of them over HTTP
+ */
+export async function scanFixtures(directory: string, options: SecurityScanOptions = {}): Promise<SecurityScanResult[]> {
+  const server = await startFixtureServer(loadFixtures(directory));
+  try {
+    const results: SecurityScanResult[] = [];
+    for (const fixture of server.fixtures) {
+      results.push(await scanTarget(`${server.url}${fixture.path}`, options));
+    }
+    return results;
+  } finally {
+    await server.close();
+  }
+}
+
+/**
+ * CLI entry point; resolves with the process exit code
+ */
+export async function runSecurityScanCli(argv: string[]): Promise<number> {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+  const format = (valueOf('--format') ?? 'text') as SecurityReportFormat;
+  const output = valueOf('--output');
+  const baselineFile = valueOf('--baseline');
+  const valueFlags = ['--format', '--output', '--baseline'];
+  const args = argv.filter((arg, index) => !arg.startsWith('--') && !valueFlags.includes(argv[index - 1]));
+  const options: SecurityScanOptions = { isProduction: !argv.includes('--dev') };
+
+  if (argv.includes('--help') || (args.length === 0 && !argv.includes('--fixtures'))) {
+    console.log(USAGE);
+    return argv.includes('--help') ? 0 : 2;
+  }
+
+  const missingValue = valueFlags.some(flag => argv.includes(flag) && !valueOf(flag));
+  if (!SECURITY_REPORT_FORMATS.includes(format) || missingValue || (argv.includes('--update-baseline') && !baselineFile)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let results: SecurityScanResult[];
+  try {
+    results = argv.includes('--fixtures')
+      ? await scanFixtures(args[0] ?? DEFAULT_FIXTURE_DIR, options)
+      : await Promise.all(args.map(target => scanTarget(target, options)));
+  } catch (error) {
+    console.error(`Security scan failed: ${(error as Error).message}`);
+    return 2;
+  }
+
+  const report = formatSecurityReport(results, format);
+  if (output) {
+    writeFileSync(output, report);
+  } else {
+    console.log(report);
+  }
+
+  // Machine-readable output stays parseable; summaries go to stderr
+  const log = format === 'text' && !output ? console.log : console.error;
+  const blockingCount = results.reduce((total, result) => total + result.blocking.length, 0);
+  log(`Blocking findings: ${blockingCount}`);
+
+  const hasBlocking = results.some(result => result.blocking.length > 0);
+  if (!baselineFile) {
+    return hasBlocking ? 1 : 0;
+  }
+
+  const scans = results.map(({ target, suite, response }) => ({ target, snapshot: createSecuritySnapshot(response, suite) }));
+  if (argv.includes('--update-baseline')) {
+    saveSecurityBaseline(baselineFile, scans);
+    log(`Baseline written to ${baselineFile}`);
+    return hasBlocking ? 1 : 0;
+  }
+
+  let baseline;
+  try {
+    baseline = loadSecurityBaseline(baselineFile);
+  } catch (error) {
+    console.error(`Security scan failed: ${(error as Error).message}`);
+    return 2;
+  }
+  if (!baseline) {
+    console.error(`Baseline ${baselineFile} not found; create it with --update-baseline`);
+    return 2;
+  }
+
+  const diffs = diffSecurityBaseline(baseline, scans);
+  const unapproved = diffs.reduce((total, diff) => total + diff.unapproved.length, 0);
+  log(`${formatBaselineDiff(diffs)}\nUnapproved baseline changes: ${unapproved}`);
+
+  return hasBlocking || unapproved > 0 ? 1 : 0;
+}
@@ -3,13 +3,22 @@
  * Tools for testing OWASP compliance and security headers
  */
 
-// Note: Imports removed to avoid middleware conflicts
-// Security testing is done through direct implementation
+import { getCSPHeader } from './csp-config';
+import { createLogger } from './logger';
+import { getSecurityHeaders, validateCSP } from './security-headers';
+import type { SecurityHeaders } from './security-headers';
+import type { SecurityRuleId } from './security-rules';
+
+export type SecuritySeverity = 'low' | 'medium' | 'high' | 'critical';
 
 export interface SecurityTestResult {
+  /** Stable identifier, see SECURITY_RULES */
+  ruleId: SecurityRuleId;
   passed: boolean;
   message: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: SecuritySeverity;
+  /** What the result is about when a rule is checked more than once, e.g. the cookie name */
+  subject?: string;
 }
 
 export interface SecurityTestSuite {
@@ -23,107 +32,186 @@ export interface SecurityTestSuite {
   };
 }
 
+/**
+ * An HTTP response captured from a live site, a HAR file or a fixture
+ */
+export interface RecordedResponse {
+  headers: SecurityHeaders;
+  setCookies?: string[];
+}
+
+export interface SecurityTestOptions {
+  /** Test this response instead of the app's own header configuration */
+  response?: RecordedResponse;
+  /** Apply production-only checks (HSTS, Secure cookies, no unsafe sources) */
+  isProduction?: boolean;
+}
+
+export interface ParsedCookie {
+  name: string;
+  attributes: Record<string, string | true>;
+}
+
+// Failed checks cost their weight; a suite's score is the weight that passed
+const SEVERITY_WEIGHTS: Record<SecuritySeverity, number> = {
+  low: 1,
+  medium: 3,
+  high: 5,
+  critical: 10
+};
+
+// Six months, the minimum accepted for HSTS preload lists
+const MIN_HSTS_MAX_AGE = 15552000;
+
+const SESSION_COOKIE_PATTERN = /token|session|sid|auth|csrf/i;
+
+function addResult(
+  results: SecurityTestResult[],
+  ruleId: SecurityRuleId,
+  passed: boolean,
+  severity: SecuritySeverity,
+  passMessage: string,
+  failMessage: string,
+  subject?: string
+): void {
+  results.push({ ruleId, passed, message: passed ? passMessage : failMessage, severity, ...(subject && { subject }) });
+}
+
+function isProductionEnv(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+export function getHeader(headers: SecurityHeaders, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  const key = Object.keys(headers).find(header => header.toLowerCase() === wanted);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Parse a CSP header into directive -> sources; the first occurrence of a directive wins
+ */
+export function parseCSP(csp: string): Record<string, string[]> {
+  const directives: Record<string, string[]> = {};
+
+  csp.split(';').forEach(part => {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (name && !(name.toLowerCase() in directives)) {
+      directives[name.toLowerCase()] = sources;
+    }
+  });
+
+  return directives;
+}
+
+/**
+ * Parse a Set-Cookie header into its name and lower-cased attributes
+ */
+export function parseSetCookie(header: string): ParsedCookie {
+  const [pair, ...attributeParts] = header.split(';');
+  const attributes: ParsedCookie['attributes'] = {};
+
+  attributeParts.forEach(part => {
+    const [key, ...value] = part.trim().split('=');
+    if (key) {
+      attributes[key.toLowerCase()] = value.length > 0 ? value.join('=') : true;
+    }
+  });
+
+  return { name: pair.split('=')[0].trim(), attributes };
+}
+
 /**
  * Test CSP configuration for security issues
  */
-export function testCSPSecurity(): SecurityTestResult[] {
+export function testCSPSecurity(
+  cspHeader: string = getCSPHeader(),
+  isProduction: boolean = isProductionEnv()
+): SecurityTestResult[] {
   const results: SecurityTestResult[] = [];
-  const isProduction = process.env.NODE_ENV === 'production';
-
-  // Mock CSP header for testing (in real implementation, this would come from actual headers)
-  const cspHeader = isProduction
-    ? "default-src 'self'; script-src 'self' https://www.gstatic.com; object-src 'none'; base-uri 'self'"
-    : "default-src 'self'; script-src 'self' 'unsafe-inline' 'unsafe-eval'; object-src 'none'; base-uri 'self'";
-
-  // Test 1: Check for unsafe-inline in production
-  if (isProduction && cspHeader.includes("'unsafe-inline'")) {
-    results.push({
-      passed: false,
-      message: "CSP contains 'unsafe-inline' in production environment",
-      severity: 'high'
-    });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP unsafe-inline check passed",
-      severity: 'low'
-    });
-  }
 
-  // Test 2: Check for unsafe-eval in production
-  if (isProduction && cspHeader.includes("'unsafe-eval'")) {
-    results.push({
-      passed: false,
-      message: "CSP contains 'unsafe-eval' in production environment",
-      severity: 'high'
-    });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP unsafe-eval check passed",
-      severity: 'low'
-    });
+  if (!cspHeader.trim()) {
+    results.push({ ruleId: 'csp-present', passed: false, message: 'No Content-Security-Policy header present', severity: 'critical' });
+    return results;
   }
 
-  // Test 3: Check for wildcard sources
-  if (cspHeader.includes('*') && !cspHeader.includes('data:') && !cspHeader.includes('blob:')) {
-    results.push({
-      passed: false,
-      message: "CSP contains wildcard (*) sources",
-      severity: 'medium'
-    });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP wildcard check passed",
-      severity: 'low'
-    });
-  }
+  const directives = parseCSP(cspHeader);
+  const scriptSources = directives['script-src'] ?? directives['default-src'] ?? [];
+  // A nonce or hash makes browsers ignore 'unsafe-inline'
+  const hasNonceOrHash = scriptSources.some(source => /^'(nonce|sha256|sha384|sha512)-/.test(source));
+
+  // Test 1: Check for unsafe-inline scripts in production
+  addResult(results, 'csp-unsafe-inline',
+    !isProduction || !scriptSources.includes("'unsafe-inline'") || hasNonceOrHash,
+    'high',
+    "CSP unsafe-inline check passed",
+    "CSP allows 'unsafe-inline' scripts in production environment"
+  );
+
+  // Test 2: Check for unsafe-eval in production
+  addResult(results, 'csp-unsafe-eval',
+    !isProduction || !scriptSources.includes("'unsafe-eval'"),
+    'high',
+    "CSP unsafe-eval check passed",
+    "CSP contains 'unsafe-eval' in production environment"
+  );
+
+  // Test 3: Check for wildcard or scheme-wide script sources
+  addResult(results, 'csp-wildcard-source',
+    !scriptSources.some(source => ['*', 'http:', 'https:', 'data:'].includes(source)),
+    'medium',
+    "CSP wildcard check passed",
+    "CSP script sources contain a wildcard or scheme-wide source"
+  );
 
   // Test 4: Check for object-src 'none'
-  if (!cspHeader.includes("object-src 'none'")) {
-    results.push({
-      passed: false,
-      message: "CSP missing object-src 'none' directive",
-      severity: 'medium'
-    });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP object-src check passed",
-      severity: 'low'
-    });
-  }
+  const objectSources = directives['object-src'] ?? directives['default-src'] ?? [];
+  addResult(results, 'csp-object-src',
+    objectSources.length === 1 && objectSources[0] === "'none'",
+    'medium',
+    "CSP object-src check passed",
+    "CSP missing object-src 'none' directive"
+  );
 
   // Test 5: Check for base-uri restriction
-  if (!cspHeader.includes("base-uri 'self'")) {
-    results.push({
-      passed: false,
-      message: "CSP missing base-uri 'self' directive",
-      severity: 'medium'
-    });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP base-uri check passed",
-      severity: 'low'
-    });
-  }
+  const baseUri = directives['base-uri'] ?? [];
+  addResult(results, 'csp-base-uri',
+    baseUri.length === 1 && ["'self'", "'none'"].includes(baseUri[0]),
+    'medium',
+    "CSP base-uri check passed",
+    "CSP missing base-uri 'self' directive"
+  );
 
   // Test 6: Check for frame-ancestors
-  if (!cspHeader.includes("frame-ancestors")) {
-    results.push({
-      passed: false,
-      message: "CSP missing frame-ancestors directive",
-      severity: 'medium'
+  addResult(results, 'csp-frame-ancestors',
+    'frame-ancestors' in directives,
+    'medium',
+    "CSP frame-ancestors check passed",
+    "CSP missing frame-ancestors directive"
+  );
+
+  // Test 7: Check mixed content upgrade in production
+  addResult(results, 'csp-upgrade-insecure-requests',
+    !isProduction || 'upgrade-insecure-requests' in directives,
+    'low',
+    "CSP upgrade-insecure-requests check passed",
+    "CSP missing upgrade-insecure-requests in production"
+  );
+
+  // Structural problems found by validateCSP
+  validateCSP(cspHeader)
+    .filter(issue => issue.startsWith('ERROR'))
+    .forEach(issue => {
+      results.push({
+        ruleId: 'csp-required-directive',
+        passed: false,
+        message: issue,
+        severity: 'high',
+        subject: issue.replace(/^ERROR:\s*/, '')
+      });
     });
-  } else {
-    results.push({
-      passed: true,
-      message: "CSP frame-ancestors check passed",
-      severity: 'low'
-    });
-  }
 
   return results;
 }
@@ -131,67 +219,172 @@ export function testCSPSecurity(): SecurityTestResult[] {
 /**
  * Test security headers configuration
  */
-export function testSecurityHeaders(): SecurityTestResult[] {
+export function testSecurityHeaders(
+  headers: SecurityHeaders = getSecurityHeaders(),
+  isProduction: boolean = isProductionEnv()
+): SecurityTestResult[] {
   const results: SecurityTestResult[] = [];
+  const header = (name: string) => getHeader(headers, name)?.trim();
 
-  // This would typically test actual HTTP responses
-  // For now, we'll test the configuration
-  
-  results.push({
-    passed: true,
-    message: "X-Frame-Options configured",
-    severity: 'low'
-  });
-
-  results.push({
-    passed: true,
-    message: "X-Content-Type-Options configured",
-    severity: 'low'
-  });
+  // Strict-Transport-Security: production only, long max-age
+  if (isProduction) {
+    const hsts = header('Strict-Transport-Security') ?? '';
+    const maxAge = Number(/max-age=(\d+)/i.exec(hsts)?.[1] ?? 0);
+    addResult(results, 'hsts-max-age',
+      maxAge >= MIN_HSTS_MAX_AGE,
+      'high',
+      "Strict-Transport-Security configured",
+      hsts ? `Strict-Transport-Security max-age ${maxAge} is below ${MIN_HSTS_MAX_AGE}` : "Strict-Transport-Security missing"
+    );
+    addResult(results, 'hsts-include-subdomains',
+      /includesubdomains/i.test(hsts),
+      'low',
+      "Strict-Transport-Security covers subdomains",
+      "Strict-Transport-Security missing includeSubDomains"
+    );
+  }
 
-  results.push({
-    passed: true,
-    message: "X-XSS-Protection configured",
-    severity: 'low'
-  });
-
-  results.push({
-    passed: true,
-    message: "Referrer-Policy configured",
-    severity: 'low'
-  });
+  const frameOptions = header('X-Frame-Options')?.toUpperCase();
+  addResult(results, 'x-frame-options',
+    frameOptions === 'DENY' || frameOptions === 'SAMEORIGIN',
+    'medium',
+    "X-Frame-Options configured",
+    `X-Frame-Options missing or invalid${frameOptions ? `: ${frameOptions}` : ''}`
+  );
+
+  addResult(results, 'x-content-type-options',
+    header('X-Content-Type-Options')?.toLowerCase() === 'nosniff',
+    'medium',
+    "X-Content-Type-Options configured",
+    "X-Content-Type-Options missing or not 'nosniff'"
+  );
+
+  const xssProtection = header('X-XSS-Protection');
+  addResult(results, 'x-xss-protection',
+    xssProtection === undefined || xssProtection.trim() === '0',
+    'low',
+    "X-XSS-Protection disabled or absent",
+    `X-XSS-Protection enables the legacy XSS auditor: ${xssProtection}`
+  );
+
+  const referrerPolicy = header('Referrer-Policy')?.toLowerCase();
+  addResult(results, 'referrer-policy',
+    ['no-referrer', 'same-origin', 'strict-origin', 'strict-origin-when-cross-origin'].includes(referrerPolicy ?? ''),
+    'low',
+    "Referrer-Policy configured",
+    `Referrer-Policy missing or leaks referrers${referrerPolicy ? `: ${referrerPolicy}` : ''}`
+  );
+
+  const coop = header('Cross-Origin-Opener-Policy');
+  addResult(results, 'cross-origin-opener-policy',
+    ['same-origin', 'same-origin-allow-popups'].includes(coop ?? ''),
+    'medium',
+    "Cross-Origin-Opener-Policy configured",
+    `Cross-Origin-Opener-Policy missing or invalid${coop ? `: ${coop}` : ''}`
+  );
+
+  const coep = header('Cross-Origin-Embedder-Policy');
+  addResult(results, 'cross-origin-embedder-policy',
+    ['require-corp', 'credentialless'].includes(coep ?? ''),
+    'low',
+    "Cross-Origin-Embedder-Policy configured",
+    `Cross-Origin-Embedder-Policy missing or invalid${coep ? `: ${coep}` : ''}`
+  );
+
+  const corp = header('Cross-Origin-Resource-Policy');
+  addResult(results, 'cross-origin-resource-policy',
+    ['same-origin', 'same-site'].includes(corp ?? ''),
+    'low',
+    "Cross-Origin-Resource-Policy configured",
+    `Cross-Origin-Resource-Policy missing or too permissive${corp ? `: ${corp}` : ''}`
+  );
+
+  // Each entry must look like feature=() or feature=(self "https://origin")
+  const permissionsPolicy = header('Permissions-Policy') ?? '';
+  const permissionEntries = permissionsPolicy.split(',').map(entry => entry.trim()).filter(Boolean);
+  addResult(results, 'permissions-policy',
+    permissionEntries.length > 0 &&
+      permissionEntries.every(entry => /^[a-z0-9-]+=(\*|\((\s*(self|\*|"[^"]+")\s*)*\))$/i.test(entry)),
+    'medium',
+    "Permissions-Policy configured",
+    permissionsPolicy ? "Permissions-Policy has malformed entries" : "Permissions-Policy missing"
+  );
+
+  addResult(results, 'x-powered-by',
+    !header('X-Powered-By'),
+    'low',
+    "X-Powered-By not disclosed",
+    `X-Powered-By discloses the server stack: ${header('X-Powered-By')}`
+  );
 
   return results;
 }
 
 /**
- * Test cookie security configuration
+ * Test cookie security configuration against Set-Cookie headers
  */
-export function testCookieSecurity(): SecurityTestResult[] {
+export function testCookieSecurity(
+  setCookies: string[] = [],
+  isProduction: boolean = isProductionEnv()
+): SecurityTestResult[] {
   const results: SecurityTestResult[] = [];
-  const isProduction = process.env.NODE_ENV === 'production';
 
-  // These tests would typically examine actual cookies
-  // For now, we'll test the configuration expectations
+  if (setCookies.length === 0) {
+    results.push({ ruleId: 'cookie-none-set', passed: true, message: "No cookies set", severity: 'low' });
+    return results;
+  }
 
-  results.push({
-    passed: true,
-    message: "Cookie HttpOnly attribute configured",
-    severity: 'low'
-  });
+  setCookies.map(parseSetCookie).forEach(({ name, attributes }) => {
+    const isSessionCookie = SESSION_COOKIE_PATTERN.test(name);
+    // The CSRF double-submit cookie has to be readable by script
+    const needsHttpOnly = isSessionCookie && !/csrf/i.test(name);
+    const sameSite = typeof attributes.samesite === 'string' ? attributes.samesite.toLowerCase() : undefined;
+
+    if (needsHttpOnly) {
+      addResult(results, 'cookie-httponly',
+        attributes.httponly === true,
+        'high',
+        `Cookie ${name} HttpOnly attribute configured`,
+        `Cookie ${name} is readable by script (missing HttpOnly)`,
+        name
+      );
+    }
 
-  if (isProduction) {
-    results.push({
-      passed: true,
-      message: "Cookie Secure attribute configured for production",
-      severity: 'low'
-    });
-  }
+    if (isProduction || name.startsWith('__Host-') || name.startsWith('__Secure-')) {
+      addResult(results, 'cookie-secure',
+        attributes.secure === true,
+        isSessionCookie ? 'high' : 'medium',
+        `Cookie ${name} Secure attribute configured`,
+        `Cookie ${name} missing Secure attribute`,
+        name
+      );
+    }
 
-  results.push({
-    passed: true,
-    message: "Cookie SameSite attribute configured",
-    severity: 'low'
+    addResult(results, 'cookie-samesite',
+      sameSite === 'strict' || sameSite === 'lax' || (sameSite === 'none' && attributes.secure === true),
+      'medium',
+      `Cookie ${name} SameSite attribute configured`,
+      `Cookie ${name} missing a valid SameSite attribute`,
+      name
+    );
+
+    if (name.startsWith('__Host-')) {
+      addResult(results, 'cookie-host-prefix',
+        attributes.secure === true && attributes.path === '/' && !('domain' in attributes),
+        'high',
+        `Cookie ${name} satisfies the __Host- prefix rules`,
+        `Cookie ${name} violates the __Host- prefix rules (Secure, Path=/, no Domain)`,
+        name
+      );
+    } else if (isSessionCookie) {
+      addResult(results, 'cookie-host-prefix',
+        false,
+        'low',
+        `Cookie ${name} uses the __Host- prefix`,
+        `Cookie ${name} should use the __Host- prefix`,
+        name
+      );
+    }
   });
 
   return results;
@@ -199,24 +392,31 @@ export function testCookieSecurity(): SecurityTestResult[] {
 
 /**
  * Run complete security test suite
+ * Tests the app's own header configuration, or a recorded response when given
  */
-export function runSecurityTests(): SecurityTestSuite {
-  const cspTests = testCSPSecurity();
-  const headerTests = testSecurityHeaders();
-  const cookieTests = testCookieSecurity();
+export function runSecurityTests(options: SecurityTestOptions = {}): SecurityTestSuite {
+  const isProduction = options.isProduction ?? isProductionEnv();
+  const headers = options.response?.headers ?? getSecurityHeaders();
+  const cspHeader = options.response
+    ? getHeader(headers, 'Content-Security-Policy') ?? ''
+    : getCSPHeader();
+
+  const cspTests = testCSPSecurity(cspHeader, isProduction);
+  const headerTests = testSecurityHeaders(headers, isProduction);
+  const cookieTests = testCookieSecurity(options.response?.setCookies ?? [], isProduction);
 
   const allTests = [...cspTests, ...headerTests, ...cookieTests];
-  const passedTests = allTests.filter(test => test.passed).length;
-  const totalTests = allTests.length;
+  const weigh = (tests: SecurityTestResult[]) =>
+    tests.reduce((total, test) => total + SEVERITY_WEIGHTS[test.severity], 0);
 
   return {
     csp: cspTests,
     headers: headerTests,
     cookies: cookieTests,
     overall: {
-      passed: passedTests === totalTests,
-      score: passedTests,
-      maxScore: totalTests
+      passed: allTests.every(test => test.passed),
+      score: weigh(allTests.filter(test => test.passed)),
+      maxScore: weigh(allTests)
     }
   };
 }
@@ -224,8 +424,7 @@ export function runSecurityTests(): SecurityTestSuite {
 /**
  * Generate security report
  */
-export function generateSecurityReport(): string {
-  const testSuite = runSecurityTests();
+export function generateSecurityReport(testSuite: SecurityTestSuite = runSecurityTests()): string {
   const { overall, csp, headers, cookies } = testSuite;
 
   let report = `Security Test Report\n`;
@@ -263,18 +462,15 @@ export function generateSecurityReport(): string {
 }
 
 /**
- * Log security test results to console
+ * Log security test results
  */
 export function logSecurityTests(): void {
-  const report = generateSecurityReport();
-  console.log(report);
-}
-
-// Export for use in development
-if (process.env.NODE_ENV === 'development') {
-  // Auto-run tests in development
-  setTimeout(() => {
-    console.log('\n🔒 Running Security Tests...\n');
-    logSecurityTests();
-  }, 1000);
+  const suite = runSecurityTests();
+  const level = suite.overall.passed ? 'info' : 'warn';
+  createLogger('security-test')[level]('Security test report', {
+    passed: suite.overall.passed,
+    score: suite.overall.score,
+    maxScore: suite.overall.maxScore,
+    report: generateSecurityReport(suite)
+  });
 }
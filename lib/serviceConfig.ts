@@ -0,0 +1,160 @@
+export type ServiceName =
+	| "identity"
+	| "dataset"
+	| "user"
+	| "request"
+	| "audit"
+	| "des"
+	| "profile"
+	| "role"
+	| "requestUpd"
+	| "kafka"
+	| "desLegacy";
+
+interface ServiceDefinition {
+	envVar: string;
+	url: string | undefined;
+	required: boolean;
+	/** Also reached over WebSockets on the same host. */
+	socket?: boolean;
+}
+
+// Each process.env.NEXT_PUBLIC_* is spelled out so Next.js can inline it at build time
+const SERVICE_DEFINITIONS: Record<ServiceName, ServiceDefinition> = {
+	identity: {
+		envVar: "NEXT_PUBLIC_IDENTITY_API_BASE_URL",
+		url: process.env.NEXT_PUBLIC_IDENTITY_API_BASE_URL,
+		required: true,
+	},
+	dataset: {
+		envVar: "NEXT_PUBLIC_DATASET_BASE_URL",
+		url: process.env.NEXT_PUBLIC_DATASET_BASE_URL,
+		required: true,
+	},
+	user: {
+		envVar: "NEXT_PUBLIC_USER_BASE_URL",
+		url: process.env.NEXT_PUBLIC_USER_BASE_URL,
+		required: true,
+	},
+	request: {
+		envVar: "NEXT_PUBLIC_REQUEST_BASE_URL",
+		url: process.env.NEXT_PUBLIC_REQUEST_BASE_URL,
+		required: true,
+	},
+	audit: {
+		envVar: "NEXT_PUBLIC_AUDIT_API_BASE_URL",
+		url: process.env.NEXT_PUBLIC_AUDIT_API_BASE_URL,
+		required: true,
+	},
+	des: {
+		envVar: "NEXT_PUBLIC_DES_API_BASE_URL",
+		url: process.env.NEXT_PUBLIC_DES_API_BASE_URL,
+		required: false,
+	},
+	profile: {
+		envVar: "NEXT_PUBLIC_PROFILE_API_BASE_URL",
+		url: process.env.NEXT_PUBLIC_PROFILE_API_BASE_URL,
+		required: true,
+	},
+	role: {
+		envVar: "NEXT_PUBLIC_ROLE_BASE_URL",
+		url: process.env.NEXT_PUBLIC_ROLE_BASE_URL,
+		required: true,
+	},
+	requestUpd: {
+		envVar: "NEXT_PUBLIC_REQUEST_UPD_URL",
+		url: process.env.NEXT_PUBLIC_REQUEST_UPD_URL,
+		required: false,
+	},
+	kafka: {
+		envVar: "NEXT_PUBLIC_KAFKA_BASE_URL",
+		url: process.env.NEXT_PUBLIC_KAFKA_BASE_URL,
+		required: false,
+		socket: true,
+	},
+	// Legacy support
+	desLegacy: {
+		envVar: "NEXT_PUBLIC_DES_BASE_URL",
+		url: process.env.NEXT_PUBLIC_DES_BASE_URL,
+		required: false,
+	},
+};
+
+export const SERVICE_NAMES = Object.keys(SERVICE_DEFINITIONS) as ServiceName[];
+
+export class ServiceConfigError extends Error {
+	constructor(public readonly problems: string[]) {
+		super(`Invalid API service configuration:\n- ${problems.join("\n- ")}`);
+		this.name = "ServiceConfigError";
+	}
+}
+
+const isValidUrl = (url: string) => {
+	try {
+		new URL(url);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Lists every missing required or malformed service URL.
+ */
+export const getServiceConfigProblems = (): string[] =>
+	SERVICE_NAMES.flatMap((name) => {
+		const { envVar, url, required } = SERVICE_DEFINITIONS[name];
+		if (!url) {
+			return required ? [`${envVar} is required for the "${name}" service but is not set`] : [];
+		}
+		return isValidUrl(url) ? [] : [`${envVar} is not a valid URL: ${url}`];
+	});
+
+/**
+ * Throws a ServiceConfigError naming every problem at once.
+ */
+export const validateServiceConfig = () => {
+	const problems = getServiceConfigProblems();
+	if (problems.length > 0) {
+		throw new ServiceConfigError(problems);
+	}
+};
+
+export const getServiceUrl = (name: ServiceName): string | undefined =>
+	SERVICE_DEFINITIONS[name].url;
+
+/**
+ * Absolute URL of a path on a service, or undefined when the service has no
+ * valid URL or the path would leave the service's base path.
+ */
+export const getServiceEndpoint = (name: ServiceName, path: string): string | undefined => {
+	const baseUrl = getServiceUrl(name);
+	if (!baseUrl || !isValidUrl(baseUrl)) return undefined;
+
+	const base = new URL(baseUrl);
+	const basePath = base.pathname.replace(/\/+$/, "");
+	const url = new URL(`${basePath}/${path.replace(/^\/+/, "")}`, base.origin);
+	// Dot segments are resolved by URL, so "../" cannot climb out of the base path
+	if (url.origin !== base.origin || !url.pathname.startsWith(`${basePath}/`)) return undefined;
+	return url.toString();
+};
+
+// Browser-side clients reach the services through the session proxy route
+export const SERVICE_PROXY_PATH = "/api/proxy";
+
+export const getServiceProxyUrl = (name: ServiceName): string => `${SERVICE_PROXY_PATH}/${name}`;
+
+export const isServiceName = (name: string): name is ServiceName =>
+	Object.prototype.hasOwnProperty.call(SERVICE_DEFINITIONS, name);
+
+/**
+ * All configured service URLs, valid or not, in registry order.
+ */
+export const getServiceUrls = (): (string | undefined)[] =>
+	SERVICE_NAMES.map(getServiceUrl);
+
+/**
+ * Configured URLs of services that also open WebSocket connections.
+ */
+export const getSocketServiceUrls = (): (string | undefined)[] =>
+	SERVICE_NAMES.filter((name) => SERVICE_DEFINITIONS[name].socket).map(getServiceUrl);
@@ -0,0 +1,93 @@
+/**
+ * Session Cookies
+ * Tokens live in __Host- HttpOnly cookies set by the auth route handlers;
+ * browser code only ever sees when the session expires
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+
+export const SESSION_COOKIES = {
+    /** Access token (JWT), read by middleware and the proxy route */
+    access: "__Host-aimx_session",
+    refresh: "__Host-aimx_session_refresh",
+    user: "__Host-aimx_session_user",
+    /** Access token expiry in epoch ms; readable so the client can refresh ahead of time */
+    expires: "__Host-aimx_expires",
+    /** Signed login time in epoch ms, kept across refreshes for the absolute timeout */
+    started: "__Host-aimx_session_started",
+    /** Signed time of the last user activity the server saw, for the idle timeout */
+    seen: "__Host-aimx_session_seen",
+    /** Absolute session deadline in epoch ms; readable so the client can warn ahead of it */
+    deadline: "__Host-aimx_deadline",
+    /** Random id per login, kept across refreshes; readable so client caches can tell logins apart. Grants nothing */
+    cacheScope: "__Host-aimx_cache_scope",
+} as const;
+
+// Script-readable cookies from before the BFF session; removed whenever the session is cleared
+export const LEGACY_SESSION_COOKIES = ["token", "refresh_token", "user_id"];
+
+// Assumed lifetime of an access token without an `exp` claim, so the client
+// still refreshes ahead of time and can tell it has a session
+export const DEFAULT_ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken?: string;
+    userId?: string;
+    /** Access token expiry in epoch ms, when known */
+    expiresAt?: number | null;
+}
+
+// __Host- cookies must be Secure, Path=/ and carry no Domain. Chrome and Firefox
+// accept Secure cookies from http://localhost, Safari does not: test Safari
+// against an https dev server (next dev --experimental-https)
+export const SESSION_COOKIE_OPTIONS = {
+    secure: true,
+    path: "/",
+    sameSite: "lax",
+} as const;
+
+/**
+ * Store the tokens; a refresh that returns no new refresh token keeps the old one
+ */
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): NextResponse {
+    response.cookies.set(SESSION_COOKIES.access, tokens.accessToken, { ...SESSION_COOKIE_OPTIONS, httpOnly: true });
+    if (tokens.refreshToken) {
+        response.cookies.set(SESSION_COOKIES.refresh, tokens.refreshToken, { ...SESSION_COOKIE_OPTIONS, httpOnly: true });
+    }
+    if (tokens.userId) {
+        response.cookies.set(SESSION_COOKIES.user, tokens.userId, { ...SESSION_COOKIE_OPTIONS, httpOnly: true });
+    }
+    if (tokens.expiresAt) {
+        response.cookies.set(SESSION_COOKIES.expires, String(tokens.expiresAt), SESSION_COOKIE_OPTIONS);
+    } else {
+        response.cookies.set(SESSION_COOKIES.expires, "", { ...SESSION_COOKIE_OPTIONS, maxAge: 0 });
+    }
+    return response;
+}
+
+/**
+ * Expire every session cookie, including the legacy script-readable ones
+ */
+export function clearSessionCookies(response: NextResponse): NextResponse {
+    // A __Host- cookie is only overwritten by one with the same attributes
+    Object.values(SESSION_COOKIES).forEach((name) =>
+        response.cookies.set(name, "", { ...SESSION_COOKIE_OPTIONS, maxAge: 0 })
+    );
+    LEGACY_SESSION_COOKIES.forEach((name) => response.cookies.delete(name));
+    return response;
+}
+
+/**
+ * Tokens carried by the request, or null without an access token
+ */
+export function readSessionCookies(request: NextRequest): SessionTokens | null {
+    const accessToken = request.cookies.get(SESSION_COOKIES.access)?.value;
+    if (!accessToken) return null;
+
+    return {
+        accessToken,
+        refreshToken: request.cookies.get(SESSION_COOKIES.refresh)?.value,
+        userId: request.cookies.get(SESSION_COOKIES.user)?.value,
+    };
+}
@@ -0,0 +1,115 @@
+/**
+ * Session Server
+ * Server-side calls to the identity service for the auth route handlers
+ */
+
+import { getTokenExpiry } from "./jwt";
+import { DEFAULT_ACCESS_TOKEN_TTL_MS } from "./session-cookies";
+import type { SessionTokens } from "./session-cookies";
+import { getServiceEndpoint } from "./serviceConfig";
+
+// Identity endpoints; overridable while backend paths differ between environments
+const LOGIN_PATH = process.env.IDENTITY_LOGIN_PATH || "/auth/login";
+const REFRESH_PATH = process.env.IDENTITY_REFRESH_PATH || "/auth/refresh-token";
+
+// Token fields the identity service may return; none of them reach the browser
+const TOKEN_FIELDS = ["jwtToken", "accessToken", "token", "refreshToken", "refresh_token"];
+
+export interface IdentityResult {
+    status: number;
+    /** Response body with every token field removed */
+    body: unknown;
+    /** Present when the call succeeded and returned an access token */
+    tokens: SessionTokens | null;
+}
+
+// Ids may come back as numbers
+const pickString = (source: Record<string, unknown>, fields: string[]) => {
+    const value = fields.map((field) => source[field]).find((candidate) => candidate !== undefined && candidate !== "");
+    return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+};
+
+/**
+ * Copy of an identity response body without any token fields
+ */
+export function stripTokens(value: unknown): unknown {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([key]) => !TOKEN_FIELDS.includes(key))
+            .map(([key, nested]) => [key, key === "data" ? stripTokens(nested) : nested])
+    );
+}
+
+const normalizePath = (path: string) => `/${path.split("?")[0].replace(/^\/+|\/+$/g, "")}`.toLowerCase();
+
+/**
+ * Whether an identity path issues tokens; those calls must go through the auth
+ * route handlers, never the proxy
+ */
+export function isIdentitySessionPath(path: string): boolean {
+    return [LOGIN_PATH, REFRESH_PATH].map(normalizePath).includes(normalizePath(path));
+}
+
+/**
+ * Tokens from `{ jwtToken, refresh_token, user_id }`, either at the top level or under `data`
+ */
+export function extractSessionTokens(body: unknown): SessionTokens | null {
+    if (!body || typeof body !== "object") return null;
+
+    const top = body as Record<string, unknown>;
+    const data = top.data && typeof top.data === "object" ? (top.data as Record<string, unknown>) : {};
+    const read = (fields: string[]) => pickString(data, fields) ?? pickString(top, fields);
+
+    const accessToken = read(["jwtToken", "accessToken", "token"]);
+    if (!accessToken) return null;
+
+    return {
+        accessToken,
+        refreshToken: read(["refresh_token", "refreshToken"]),
+        userId: read(["user_id", "userId"]),
+        expiresAt: getTokenExpiry(accessToken) ?? Date.now() + DEFAULT_ACCESS_TOKEN_TTL_MS,
+    };
+}
+
+async function callIdentity(path: string, payload: unknown): Promise<IdentityResult> {
+    const url = getServiceEndpoint("identity", path);
+    if (!url) {
+        throw new Error("NEXT_PUBLIC_IDENTITY_API_BASE_URL is not set");
+    }
+
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify(payload),
+        cache: "no-store",
+    });
+
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+        body = text ? JSON.parse(text) : null;
+    } catch {
+        body = { message: text };
+    }
+
+    return {
+        status: response.status,
+        body: stripTokens(body),
+        tokens: response.ok ? extractSessionTokens(body) : null,
+    };
+}
+
+/**
+ * Forward the login form to the identity service
+ */
+export function loginWithIdentity(credentials: unknown): Promise<IdentityResult> {
+    return callIdentity(LOGIN_PATH, credentials);
+}
+
+/**
+ * Exchange the refresh token for a new access token
+ */
+export function refreshWithIdentity(refreshToken: string, userId: string): Promise<IdentityResult> {
+    return callIdentity(REFRESH_PATH, { refresh_token: refreshToken, user_id: userId });
+}
@@ -0,0 +1,146 @@
+/**
+ * Session Timeouts
+ * Idle and absolute session lifetimes, enforced by middleware and the auth
+ * routes whatever the access token's own expiry says
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+import type { JwtPayload } from "./jwt";
+import { SESSION_COOKIE_OPTIONS, SESSION_COOKIES } from "./session-cookies";
+
+export interface SessionTimeouts {
+    /** Inactivity after which the session ends */
+    idleMs: number;
+    /** Maximum session length from login, however active */
+    absoluteMs: number;
+    /** How long before either timeout the client warns */
+    warningMs: number;
+}
+
+export type SessionState = "active" | "idle" | "expired";
+
+const MINUTE_MS = 60 * 1000;
+
+const readMinutes = (value: string | undefined, fallback: number) => {
+    const minutes = Number(value);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : fallback) * MINUTE_MS;
+};
+
+/**
+ * Configured timeouts; NEXT_PUBLIC_ so the client warns on the same schedule.
+ * Defaults: 30 minutes idle, 12 hours absolute, warning 2 minutes ahead.
+ */
+export function getSessionTimeouts(): SessionTimeouts {
+    return {
+        idleMs: readMinutes(process.env.NEXT_PUBLIC_SESSION_IDLE_TIMEOUT_MINUTES, 30),
+        absoluteMs: readMinutes(process.env.NEXT_PUBLIC_SESSION_ABSOLUTE_TIMEOUT_MINUTES, 12 * 60),
+        warningMs: readMinutes(process.env.NEXT_PUBLIC_SESSION_TIMEOUT_WARNING_MINUTES, 2),
+    };
+}
+
+// Timestamp cookies are `<epoch ms>.<HMAC>` bound to the cookie name and user,
+// so a client can neither forge nor drop them to stretch its session
+let signingKey: Promise<CryptoKey> | null = null;
+
+export class SessionConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SessionConfigError";
+    }
+}
+
+// Middleware and every route handler are separate module instances, so the
+// key has to come from configuration they all share
+function getSigningKey(): Promise<CryptoKey> {
+    if (!signingKey) {
+        const secret = process.env.SESSION_SECRET;
+        if (!secret) {
+            throw new SessionConfigError("SESSION_SECRET is not set; sessions cannot be issued or checked without it");
+        }
+        signingKey = globalThis.crypto.subtle.importKey(
+            "raw",
+            new TextEncoder().encode(secret),
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["sign", "verify"]
+        );
+    }
+    return signingKey;
+}
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+    btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+    Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const signedPayload = (name: string, userId: string, time: number) => new TextEncoder().encode(`${name}:${userId}:${time}`);
+
+async function signTime(name: string, userId: string, time: number): Promise<string> {
+    const signature = await globalThis.crypto.subtle.sign("HMAC", await getSigningKey(), signedPayload(name, userId, time));
+    return `${time}.${toBase64Url(signature)}`;
+}
+
+async function readSignedTime(request: NextRequest, name: string): Promise<number | null> {
+    const [rawTime, signature] = request.cookies.get(name)?.value.split(".") ?? [];
+    const time = Number(rawTime);
+    if (!signature || !Number.isFinite(time) || time <= 0) return null;
+
+    const userId = request.cookies.get(SESSION_COOKIES.user)?.value ?? "";
+    // Outside the try: a missing secret is a configuration error, not a bad cookie
+    const key = await getSigningKey();
+    try {
+        const valid = await globalThis.crypto.subtle.verify(
+            "HMAC",
+            key,
+            fromBase64Url(signature),
+            signedPayload(name, userId, time)
+        );
+        return valid ? time : null;
+    } catch {
+        // Malformed base64
+        return null;
+    }
+}
+
+/**
+ * Login time: the verified token's `auth_time` claim when it has one, else the signed started cookie
+ */
+export async function getSessionStartedAt(request: NextRequest, claims?: JwtPayload | null): Promise<number | null> {
+    const authTime = claims?.auth_time;
+    return typeof authTime === "number" ? authTime * 1000 : readSignedTime(request, SESSION_COOKIES.started);
+}
+
+/**
+ * Whether the session is still within both timeouts. A session without valid
+ * timestamps cannot be timed and counts as expired.
+ */
+export async function getSessionState(request: NextRequest, claims?: JwtPayload | null): Promise<SessionState> {
+    const { idleMs, absoluteMs } = getSessionTimeouts();
+    const now = Date.now();
+
+    const startedAt = await getSessionStartedAt(request, claims);
+    if (startedAt === null || now - startedAt > absoluteMs) return "expired";
+
+    const lastSeen = await readSignedTime(request, SESSION_COOKIES.seen);
+    if (lastSeen === null) return "expired";
+    if (now - lastSeen > idleMs) return "idle";
+
+    return "active";
+}
+
+/**
+ * Record user activity and keep the absolute deadline cookies in step with
+ * `startedAt`; `userId` is the session's user, which the timestamps are bound to
+ */
+export async function touchSession(response: NextResponse, startedAt: number, userId = ""): Promise<NextResponse> {
+    const deadline = startedAt + getSessionTimeouts().absoluteMs;
+    const [seen, started] = await Promise.all([
+        signTime(SESSION_COOKIES.seen, userId, Date.now()),
+        signTime(SESSION_COOKIES.started, userId, startedAt),
+    ]);
+    response.cookies.set(SESSION_COOKIES.seen, seen, { ...SESSION_COOKIE_OPTIONS, httpOnly: true });
+    response.cookies.set(SESSION_COOKIES.started, started, { ...SESSION_COOKIE_OPTIONS, httpOnly: true });
+    response.cookies.set(SESSION_COOKIES.deadline, String(deadline), SESSION_COOKIE_OPTIONS);
+    return response;
+}
@@ -0,0 +1,160 @@
+import Cookies from "js-cookie";
+import { getCsrfHeaders } from "./csrfToken";
+import { LOGIN_PATH } from "./return-to";
+import { SESSION_COOKIES } from "./session-cookies";
+import { getSessionTimeouts } from "./session-timeouts";
+import { clearSession, hasSession, redirectToLogin } from "./tokenRefresh";
+
+export type SessionTimeoutReason = "idle" | "absolute";
+
+export interface SessionTimeoutWarning {
+	reason: SessionTimeoutReason;
+	/** Time left before the session ends */
+	remainingMs: number;
+}
+
+export interface SessionActivityOptions {
+	/** Called every second while a timeout is within the warning period. */
+	onWarning?: (warning: SessionTimeoutWarning) => void;
+	/** Called when activity lifts a warning. */
+	onActive?: () => void;
+	/** Called once the session has been ended by a timeout. */
+	onTimeout?: (reason: SessionTimeoutReason) => void;
+	/** Where to send the user afterwards; false to stay put. Defaults to LOGIN_PATH. */
+	redirectTo?: string | false;
+}
+
+// Middleware and the refresh route enforce the same timeouts; this endpoint
+// moves the server's idle clock, which background API calls do not
+export const SESSION_ACTIVITY_ENDPOINT = "/api/auth/activity";
+
+const ACTIVITY_STORAGE_KEY = "aimx-session-activity";
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"];
+const CHECK_INTERVAL_MS = 1000;
+// Activity is recorded at most this often, and reported to the server less often still
+const RECORD_INTERVAL_MS = 1000;
+const REPORT_INTERVAL_MS = 60_000;
+
+let lastActivity = Date.now();
+// The page load itself went through middleware, which counts as activity
+let lastReported = Date.now();
+
+const readNumber = (value: string | null | undefined) => {
+	const number = Number(value);
+	return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+// Activity in any tab keeps every tab's session alive
+const getLastActivity = () => {
+	try {
+		return Math.max(lastActivity, readNumber(localStorage.getItem(ACTIVITY_STORAGE_KEY)) ?? 0);
+	} catch {
+		return lastActivity;
+	}
+};
+
+const storeActivity = () => {
+	lastActivity = Date.now();
+	try {
+		localStorage.setItem(ACTIVITY_STORAGE_KEY, String(lastActivity));
+	} catch {
+		// Storage may be blocked; this tab still tracks its own activity
+	}
+};
+
+// Resolves false only when the server says the session is already over
+const reportActivity = () => {
+	lastReported = Date.now();
+	return fetch(SESSION_ACTIVITY_ENDPOINT, {
+		method: "POST",
+		credentials: "same-origin",
+		headers: getCsrfHeaders("POST"),
+	})
+		.then((response) => response.ok || response.status !== 401)
+		.catch(() => true);
+};
+
+/**
+ * Absolute session deadline in epoch ms, or null when the server set none.
+ */
+export const getSessionDeadline = () => readNumber(Cookies.get(SESSION_COOKIES.deadline));
+
+/**
+ * Time left before the first timeout, and which one it is.
+ */
+export const getSessionTimeRemaining = (): SessionTimeoutWarning => {
+	const { idleMs } = getSessionTimeouts();
+	const now = Date.now();
+	const idleRemaining = getLastActivity() + idleMs - now;
+	const deadline = getSessionDeadline();
+	const absoluteRemaining = deadline === null ? Infinity : deadline - now;
+
+	return absoluteRemaining < idleRemaining
+		? { reason: "absolute", remainingMs: absoluteRemaining }
+		: { reason: "idle", remainingMs: idleRemaining };
+};
+
+/**
+ * Tracks user activity and ends the session after the idle or absolute
+ * timeout, warning `warningMs` ahead. Returns a function that stops tracking.
+ */
+export const startSessionActivityTracker = (options: SessionActivityOptions = {}) => {
+	if (typeof window === "undefined") return () => undefined;
+
+	const { onWarning, onActive, onTimeout, redirectTo = LOGIN_PATH } = options;
+	let warned = false;
+
+	const endSession = (reason: SessionTimeoutReason) => {
+		stop();
+		// Also tells the other tabs to log out
+		clearSession();
+		onTimeout?.(reason);
+		if (redirectTo) redirectToLogin(redirectTo);
+	};
+
+	const recordActivity = () => {
+		if (Date.now() - lastActivity < RECORD_INTERVAL_MS) return;
+		storeActivity();
+
+		if (hasSession() && lastActivity - lastReported >= REPORT_INTERVAL_MS) {
+			void reportActivity().then((accepted) => {
+				if (!accepted) endSession("idle");
+			});
+		}
+	};
+
+	const check = () => {
+		if (!hasSession()) return;
+
+		const remaining = getSessionTimeRemaining();
+		if (remaining.remainingMs <= 0) {
+			endSession(remaining.reason);
+		} else if (remaining.remainingMs <= getSessionTimeouts().warningMs) {
+			warned = true;
+			onWarning?.(remaining);
+		} else if (warned) {
+			warned = false;
+			onActive?.();
+		}
+	};
+
+	const handleActivity = () => recordActivity();
+	ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+	const timer = setInterval(check, CHECK_INTERVAL_MS);
+
+	function stop() {
+		clearInterval(timer);
+		ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+	}
+
+	return stop;
+};
+
+/**
+ * "Stay signed in": counts as activity right away and tells the server.
+ * Cannot extend past the absolute timeout.
+ */
+export const extendSession = () => {
+	storeActivity();
+	return reportActivity();
+};
@@ -0,0 +1,144 @@
+// Tabs share one cookie jar, so the tokens themselves never need to travel;
+// tabs only tell each other that the session changed and take turns refreshing
+
+export type SessionMessage =
+	| { type: "refreshed"; expiresAt: number | null }
+	| { type: "logout" };
+
+type SessionListener = (message: SessionMessage) => void;
+
+const CHANNEL_NAME = "aimx-session";
+const STORAGE_MESSAGE_KEY = "aimx-session-message";
+const STORAGE_LOCK_KEY = "aimx-session-refresh-lock";
+// A tab that dies mid-refresh must not block the others for longer than this
+const LOCK_LEASE_MS = 15_000;
+const LOCK_POLL_MS = 100;
+
+const TAB_ID = Math.random().toString(36).slice(2);
+
+const listeners = new Set<SessionListener>();
+let channel: BroadcastChannel | null = null;
+let transportStarted = false;
+
+const hasLocalStorage = () => {
+	try {
+		return typeof localStorage !== "undefined";
+	} catch {
+		// Blocked storage (e.g. disabled cookies) throws on access
+		return false;
+	}
+};
+
+const notify = (message: SessionMessage) => {
+	listeners.forEach((listener) => listener(message));
+};
+
+const startTransport = () => {
+	if (transportStarted || typeof window === "undefined") return;
+	transportStarted = true;
+
+	if (typeof BroadcastChannel !== "undefined") {
+		channel = new BroadcastChannel(CHANNEL_NAME);
+		channel.onmessage = (event: MessageEvent<SessionMessage>) => notify(event.data);
+		return;
+	}
+
+	// Storage events only fire in the other tabs, which is exactly what we want
+	window.addEventListener("storage", (event) => {
+		if (event.key !== STORAGE_MESSAGE_KEY || !event.newValue) return;
+		try {
+			notify(JSON.parse(event.newValue).message);
+		} catch {
+			// Ignore values written by something else
+		}
+	});
+};
+
+/**
+ * Tells every other tab about a session change. The sending tab is not notified.
+ */
+export const postSessionMessage = (message: SessionMessage) => {
+	startTransport();
+	if (channel) {
+		channel.postMessage(message);
+	} else if (hasLocalStorage()) {
+		// A unique value per post, or repeating a message would not fire the event
+		localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify({ message, from: TAB_ID, at: Date.now() }));
+	}
+};
+
+/**
+ * Subscribes to session changes made in other tabs. Returns the unsubscriber.
+ */
+export const onSessionMessage = (listener: SessionListener) => {
+	startTransport();
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+};
+
+// Resolves after `ms`, or earlier when another tab reports on the session
+const waitForSessionNews = (ms: number) =>
+	new Promise<void>((resolve) => {
+		const stop = onSessionMessage(() => done());
+		const timer = setTimeout(() => done(), ms);
+		function done() {
+			clearTimeout(timer);
+			stop();
+			resolve();
+		}
+	});
+
+type Lease = { owner: string; expiresAt: number };
+
+const readLease = (): Lease | null => {
+	try {
+		return JSON.parse(localStorage.getItem(STORAGE_LOCK_KEY) ?? "null");
+	} catch {
+		return null;
+	}
+};
+
+const acquireLease = async (): Promise<() => void> => {
+	for (;;) {
+		const lease = readLease();
+		if (!lease || lease.expiresAt < Date.now() || lease.owner === TAB_ID) {
+			try {
+				localStorage.setItem(STORAGE_LOCK_KEY, JSON.stringify({ owner: TAB_ID, expiresAt: Date.now() + LOCK_LEASE_MS }));
+			} catch {
+				// Full or read-only storage will not take a lease on retry either;
+				// refreshing without the lock beats never refreshing
+				return () => undefined;
+			}
+			// localStorage has no compare-and-set: give a racing tab time to
+			// overwrite the lease, and only proceed if ours survived
+			await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+			if (readLease()?.owner === TAB_ID) {
+				return () => {
+					if (readLease()?.owner === TAB_ID) localStorage.removeItem(STORAGE_LOCK_KEY);
+				};
+			}
+		}
+		await waitForSessionNews(LOCK_POLL_MS);
+	}
+};
+
+/**
+ * Runs the task while no other tab runs one under the same lock. Uses the
+ * Web Locks API where available and a localStorage lease otherwise; without
+ * either (server rendering) the task simply runs.
+ */
+export const withRefreshLock = async <T>(task: () => Promise<T>): Promise<T> => {
+	if (typeof navigator !== "undefined" && navigator.locks) {
+		return navigator.locks.request(STORAGE_LOCK_KEY, task);
+	}
+	if (!hasLocalStorage()) return task();
+
+	const release = await acquireLease();
+	try {
+		return await task();
+	} finally {
+		release();
+	}
+};
@@ -0,0 +1,199 @@
+import axios from "axios";
+import Cookies from "js-cookie";
+import Router from "next/router";
+import { clearApiCaches } from "./apiCache";
+import { isAxiosOrApiError, toApiError } from "./apiError";
+import { getCsrfHeaders } from "./csrfToken";
+import { buildLoginUrl, LOGIN_PATH } from "./return-to";
+import { LEGACY_SESSION_COOKIES, SESSION_COOKIES } from "./session-cookies";
+import { onSessionMessage, postSessionMessage, withRefreshLock } from "./sessionChannel";
+
+// Session route handlers; tokens stay in HttpOnly cookies on their side
+export const SESSION_REFRESH_ENDPOINT = "/api/auth/refresh";
+export const SESSION_LOGOUT_ENDPOINT = "/api/auth/logout";
+
+// Refresh this long before `exp` so in-flight uploads never hit an expired token
+const REFRESH_LEAD_TIME_MS = 60_000;
+// setTimeout overflows above 2^31 - 1 ms
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+// The refresh runs under the cross-tab lock, so a hung request must not hold
+// it indefinitely; kept under the lock's lease so the fallback lease never
+// lapses mid-refresh
+const REFRESH_TIMEOUT_MS = 10_000;
+
+// Shared by every client created through createApiClient, so concurrent
+// 401s across services still rotate the refresh token exactly once; the
+// session channel extends that to every open tab
+let pendingRefresh: Promise<number | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let schedulerStarted = false;
+let redirectPending = false;
+
+/**
+ * Access token expiry in epoch ms from the readable expiry cookie, or null
+ * without a session.
+ */
+export const getSessionExpiry = (): number | null => {
+	const expiresAt = Number(Cookies.get(SESSION_COOKIES.expires));
+	return Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : null;
+};
+
+// What every tab does when the session ends, whichever tab ended it
+const clearLocalSession = () => {
+	cancelScheduledRefresh();
+	LEGACY_SESSION_COOKIES.forEach((name) => Cookies.remove(name));
+	Cookies.remove(SESSION_COOKIES.expires, { path: "/", secure: true });
+	// Cached responses belong to the user that just lost the session
+	void clearApiCaches();
+};
+
+export const clearSession = () => {
+	clearLocalSession();
+	// The token cookies are HttpOnly, so only the server can expire them
+	void fetch(SESSION_LOGOUT_ENDPOINT, {
+		method: "POST",
+		credentials: "same-origin",
+		headers: getCsrfHeaders("POST"),
+	}).catch(() => undefined);
+	postSessionMessage({ type: "logout" });
+};
+
+export const hasSession = () => getSessionExpiry() !== null;
+
+/**
+ * Sends the user to the login page once, even when several clients give up
+ * on the session at the same time. The current page is kept as `returnTo`.
+ */
+export const redirectToLogin = (target: string) => {
+	if (redirectPending) return;
+	redirectPending = true;
+
+	const { pathname, search } = window.location;
+	const returnTo = pathname === target ? null : `${pathname}${search}`;
+	Router.push(buildLoginUrl(target, returnTo)).finally(() => {
+		redirectPending = false;
+	});
+};
+
+const performRefresh = async (): Promise<number | null> => {
+	try {
+		const { data } = await axios.post<{ expiresAt: number | null }>(SESSION_REFRESH_ENDPOINT, null, {
+			withCredentials: true,
+			headers: getCsrfHeaders("POST"),
+			timeout: REFRESH_TIMEOUT_MS,
+		});
+		return data.expiresAt;
+	} catch (refreshError) {
+		// A rejected refresh token ends the session; network trouble and
+		// rate limiting do not
+		if (isAxiosOrApiError(refreshError)) {
+			const { kind, status } = toApiError(refreshError);
+			if (kind === "auth-expired" || status === 400 || status === 401) {
+				clearSession();
+			}
+		}
+		throw refreshError;
+	}
+};
+
+/**
+ * Resolves with the new session expiry once the server has rotated the
+ * tokens. Callers arriving while a refresh is in flight wait on the same one
+ * and are rejected together if it fails. Only one tab refreshes at a time; a
+ * tab that waited on another one's refresh uses its result.
+ */
+export const refreshSession = (): Promise<number | null> => {
+	if (!pendingRefresh) {
+		const expiryBeforeWait = getSessionExpiry();
+		pendingRefresh = withRefreshLock(async () => {
+			const currentExpiry = getSessionExpiry();
+			if (currentExpiry !== null && expiryBeforeWait !== null && currentExpiry > expiryBeforeWait) {
+				return currentExpiry;
+			}
+			const expiresAt = await performRefresh();
+			postSessionMessage({ type: "refreshed", expiresAt });
+			return expiresAt;
+		})
+			.then((expiresAt) => {
+				scheduleTokenRefresh();
+				return expiresAt;
+			})
+			.finally(() => {
+				pendingRefresh = null;
+			});
+	}
+	return pendingRefresh;
+};
+
+/**
+ * A request sent before the session was last refreshed only needs to be
+ * replayed, not trigger another refresh.
+ */
+export const hasSessionChangedSince = (sentExpiry: number | null): boolean => {
+	const currentExpiry = getSessionExpiry();
+	return currentExpiry !== null && sentExpiry !== null && currentExpiry > sentExpiry;
+};
+
+/**
+ * True when the session expires within the refresh lead time.
+ */
+export const isSessionExpiring = (): boolean => {
+	const expiresAt = getSessionExpiry();
+	return expiresAt !== null && expiresAt - Date.now() <= REFRESH_LEAD_TIME_MS;
+};
+
+const cancelScheduledRefresh = () => {
+	if (refreshTimer) {
+		clearTimeout(refreshTimer);
+		refreshTimer = null;
+	}
+};
+
+/**
+ * Arms a timer that refreshes the session shortly before it expires.
+ * Nothing is scheduled while the tab is hidden; it is re-armed on return.
+ */
+export const scheduleTokenRefresh = () => {
+	cancelScheduledRefresh();
+	if (typeof document === "undefined" || document.visibilityState === "hidden") return;
+
+	const expiresAt = getSessionExpiry();
+	if (expiresAt === null) return;
+
+	const delay = Math.min(
+		Math.max(expiresAt - Date.now() - REFRESH_LEAD_TIME_MS, 0),
+		MAX_TIMER_DELAY_MS,
+	);
+	refreshTimer = setTimeout(() => {
+		refreshTimer = null;
+		refreshSession().catch(() => undefined);
+	}, delay);
+};
+
+/**
+ * Starts proactive refresh and cross-tab session sync once per page, however
+ * many clients are created.
+ */
+export const startTokenRefreshScheduler = () => {
+	if (schedulerStarted || typeof document === "undefined") return;
+	schedulerStarted = true;
+
+	onSessionMessage((message) => {
+		if (message.type === "refreshed") {
+			// Another tab rotated the shared cookies; follow its new expiry
+			scheduleTokenRefresh();
+		} else if (message.type === "logout") {
+			clearLocalSession();
+			redirectToLogin(LOGIN_PATH);
+		}
+	});
+
+	document.addEventListener("visibilitychange", () => {
+		if (document.visibilityState === "hidden") {
+			cancelScheduledRefresh();
+		} else {
+			scheduleTokenRefresh();
+		}
+	});
+	scheduleTokenRefresh();
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { extendSession, startSessionActivityTracker } from "./sessionActivity";
+import type { SessionActivityOptions, SessionTimeoutWarning } from "./sessionActivity";
+
+/**
+ * Runs the session activity tracker while the component is mounted and
+ * exposes the pending timeout warning, e.g. for a "still there?" dialog.
+ * Mount it once, near the root of the signed-in layout.
+ */
+export const useSessionTimeout = (options: Pick<SessionActivityOptions, "onTimeout" | "redirectTo"> = {}) => {
+	const [warning, setWarning] = useState<SessionTimeoutWarning | null>(null);
+	const { onTimeout, redirectTo } = options;
+
+	useEffect(
+		() =>
+			startSessionActivityTracker({
+				onWarning: setWarning,
+				onActive: () => setWarning(null),
+				onTimeout: (reason) => {
+					setWarning(null);
+					onTimeout?.(reason);
+				},
+				redirectTo,
+			}),
+		[onTimeout, redirectTo],
+	);
+
+	const staySignedIn = useCallback(() => {
+		setWarning(null);
+		return extendSession();
+	}, []);
+
+	return { warning, staySignedIn };
+};